@@ -0,0 +1,336 @@
+import {
+  Box,
+  Paper,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import * as d3 from "d3";
+import { useEffect, useMemo, useRef, useState } from "react";
+
+import { type HeatmapOrder, heatmapOrder } from "~/lib/heatmap";
+import { formatLabel } from "~/lib/labels";
+
+import type { AssocRow } from "./types";
+
+type Props = {
+  rows: AssocRow[];
+  diseaseName: string;
+  /** Called with the id of a clicked target (cell or symbol). */
+  onSelect: (id: string) => void;
+};
+
+type Cell = { row: AssocRow; datatypeId: string; score: number | null };
+
+const CELL_HEIGHT = 20;
+const NO_EVIDENCE = "#f3f4f6";
+
+const styles = {
+  paper: { borderRadius: 0, p: 2 },
+  container: { display: "flex", justifyContent: "center", position: "relative" },
+  svg: { width: "70%", height: "auto", display: "block" },
+  tooltip: {
+    position: "absolute" as const,
+    pointerEvents: "none" as const,
+    opacity: 0,
+    padding: "6px 8px",
+    borderRadius: 6,
+    fontSize: 12,
+    lineHeight: 1.2,
+    background: "rgba(17, 24, 39, 0.92)",
+    color: "#fff",
+    boxShadow: "0 2px 8px rgba(0,0,0,0.25)",
+    transform: "translate(8px, -50%)",
+    transition: "opacity 120ms ease",
+    zIndex: 1,
+  },
+} as const;
+
+/**
+ * Renders a targets × datatypes heatmap of association scores using D3.js,
+ * to show the pattern of evidence across a page of targets at a glance.
+ *
+ * Features:
+ * - One row per target, one column per datatype; cell colour maps the
+ *   score from 0 to 1, with grey for datatypes without evidence.
+ * - Hover/focus tooltip with the target, datatype and score, styled like
+ *   {@link BarChart}'s.
+ * - Ordering like the table (targets in table order, datatypes by mean
+ *   score) or by hierarchical clustering of rows and columns.
+ * - Click-through: clicking a cell or target symbol (or pressing Enter on
+ *   a focused symbol) reports the target id.
+ * - A colour scale legend.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {AssocRow[]} props.rows - Association rows, one per heatmap row.
+ * @param {string} props.diseaseName - Name of the disease, for the title.
+ * @param {Function} props.onSelect - Called with a clicked target's id.
+ *
+ * @example
+ * ```tsx
+ * <AssociationHeatmap
+ *   rows={rows}
+ *   diseaseName="lung carcinoma"
+ *   onSelect={(id) => openRow(id)}
+ * />
+ * ```
+ *
+ * @returns {JSX.Element} An ordering toggle and a heatmap in an SVG element.
+ */
+export default function AssociationHeatmap({
+  rows,
+  diseaseName,
+  onSelect,
+}: Props) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [order, setOrder] = useState<HeatmapOrder>("table");
+  // Read by the D3 handlers, so that a new callback does not redraw the chart
+  const onSelectRef = useRef(onSelect);
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  });
+
+  const ordered = useMemo(() => heatmapOrder(rows, order), [rows, order]);
+  const title = `Data Type Scores: top targets for ${diseaseName}`;
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    let tooltip = d3
+      .select(containerRef.current)
+      .select<HTMLDivElement>(".d3-tooltip");
+
+    if (tooltip.empty()) {
+      tooltip = d3
+        .select(containerRef.current)
+        .append("div")
+        .attr("class", "d3-tooltip");
+      Object.entries(styles.tooltip).forEach(([k, v]) => {
+        (tooltip.node() as HTMLDivElement).style.setProperty(
+          k.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`),
+          String(v)
+        );
+      });
+    }
+
+    const margin = { top: 110, right: 20, bottom: 50, left: 90 };
+    const width = 640;
+    const w = width - margin.left - margin.right;
+    const h = ordered.rows.length * CELL_HEIGHT;
+    const height = margin.top + h + margin.bottom;
+
+    const g = svg
+      .attr("viewBox", `0 0 ${width} ${height}`)
+      .attr("role", "img")
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const x = d3
+      .scaleBand<string>()
+      .domain(ordered.datatypeIds)
+      .range([0, w])
+      .padding(0.04);
+    const y = d3
+      .scaleBand<string>()
+      .domain(ordered.rows.map((row) => row.id))
+      .range([0, h])
+      .padding(0.04);
+    const color = d3.scaleSequential(d3.interpolateBlues).domain([0, 1]);
+    const fmt = d3.format(".3f");
+
+    // Column labels, angled above the cells
+    g.selectAll("text.column-label")
+      .data(ordered.datatypeIds)
+      .enter()
+      .append("text")
+      .attr("class", "column-label")
+      .attr(
+        "transform",
+        (id) => `translate(${x(id)! + x.bandwidth() / 2},-8) rotate(-40)`
+      )
+      .attr("font-size", 10)
+      .text((id) => formatLabel(id));
+
+    // Row labels: target symbols, focusable for click-through
+    const rowLabels = g
+      .selectAll<SVGTextElement, AssocRow>("text.row-label")
+      .data(ordered.rows)
+      .enter()
+      .append("text")
+      .attr("class", "row-label")
+      .attr("x", -8)
+      .attr("y", (row) => y(row.id)! + y.bandwidth() / 2)
+      .attr("text-anchor", "end")
+      .attr("dominant-baseline", "middle")
+      .attr("font-size", 11)
+      .attr("cursor", "pointer")
+      .attr("tabindex", 0)
+      .attr("role", "button")
+      .attr("aria-label", (row) => `Open ${row.approvedSymbol} scores`)
+      .text((row) => row.approvedSymbol)
+      .on("click", (_event, row) => onSelectRef.current(row.id))
+      .on("keydown", (event: KeyboardEvent, row) => {
+        if (event.key === "Enter" || event.key === " ") {
+          event.preventDefault();
+          onSelectRef.current(row.id);
+        }
+      });
+
+    const cells = g
+      .selectAll<SVGRectElement, Cell>("rect.cell")
+      .data(
+        ordered.rows.flatMap((row) =>
+          ordered.datatypeIds.map((datatypeId) => ({
+            row,
+            datatypeId,
+            score:
+              row.datatypeScores.find((d) => d.id === datatypeId)?.score ??
+              null,
+          }))
+        )
+      )
+      .enter()
+      .append("rect")
+      .attr("class", "cell")
+      .attr("x", (d) => x(d.datatypeId)!)
+      .attr("y", (d) => y(d.row.id)!)
+      .attr("width", x.bandwidth())
+      .attr("height", y.bandwidth())
+      .attr("fill", (d) => (d.score == null ? NO_EVIDENCE : color(d.score)))
+      .attr("cursor", "pointer");
+
+    const describe = (d: Cell) =>
+      `${formatLabel(d.datatypeId)}: ${d.score == null ? "no evidence" : fmt(d.score)}`;
+
+    cells.append("title").text((d) => `${d.row.approvedSymbol} ${describe(d)}`);
+
+    cells
+      .on("mouseenter", function (_event, d) {
+        d3.select(this).attr("stroke", "#111827").attr("stroke-width", 1.5);
+        tooltip
+          .style("opacity", "1")
+          .html(`<strong>${d.row.approvedSymbol}</strong><br/>${describe(d)}`);
+      })
+      .on("mousemove", function (event) {
+        const [mx, my] = d3.pointer(event, containerRef.current);
+        tooltip.style("left", `${mx}px`).style("top", `${my}px`);
+      })
+      .on("mouseleave", function () {
+        d3.select(this).attr("stroke", null);
+        tooltip.style("opacity", "0");
+      })
+      .on("click", (_event, d) => onSelectRef.current(d.row.id));
+
+    rowLabels
+      .on("focus", function (_event, row) {
+        d3.select(this).attr("font-weight", "bold");
+        tooltip
+          .style("opacity", "1")
+          .html(
+            `<strong>${row.approvedSymbol}</strong><br/>Overall: ${fmt(row.score)}`
+          );
+      })
+      .on("blur", function () {
+        d3.select(this).attr("font-weight", null);
+        tooltip.style("opacity", "0");
+      });
+
+    // Colour scale legend
+    const legendWidth = 160;
+    const gradientId = "heatmap-gradient";
+    const gradient = svg
+      .append("defs")
+      .append("linearGradient")
+      .attr("id", gradientId);
+    d3.range(0, 1.01, 0.25).forEach((t) =>
+      gradient
+        .append("stop")
+        .attr("offset", `${t * 100}%`)
+        .attr("stop-color", color(t))
+    );
+    const legend = svg
+      .append("g")
+      .attr(
+        "transform",
+        `translate(${width - margin.right - legendWidth},${height - 30})`
+      );
+    legend
+      .append("rect")
+      .attr("width", legendWidth)
+      .attr("height", 8)
+      .attr("fill", `url(#${gradientId})`);
+    legend
+      .append("g")
+      .attr("transform", "translate(0,8)")
+      .call(
+        d3
+          .axisBottom(d3.scaleLinear().domain([0, 1]).range([0, legendWidth]))
+          .ticks(4)
+          .tickFormat(d3.format(".2f"))
+      )
+      .selectAll("text")
+      .attr("font-size", 8);
+    legend
+      .append("rect")
+      .attr("x", -110)
+      .attr("width", 8)
+      .attr("height", 8)
+      .attr("fill", NO_EVIDENCE)
+      .attr("stroke", "#d1d5db");
+    legend
+      .append("text")
+      .attr("x", -98)
+      .attr("y", 7)
+      .attr("font-size", 8)
+      .text("No evidence");
+
+    // Chart title
+    svg
+      .append("text")
+      .attr("y", 25)
+      .attr("text-anchor", "left")
+      .attr("fill", "#9f9f9fff")
+      .attr("font-size", 14)
+      .text(title);
+
+    return () => {
+      tooltip.remove();
+    };
+  }, [ordered, title]);
+
+  return (
+    <Paper variant="outlined" sx={styles.paper}>
+      <Stack direction="row" alignItems="center" spacing={2} mb={1}>
+        <Typography variant="body2" color="text.secondary">
+          Order by
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={order}
+          onChange={(_, value: HeatmapOrder | null) => value && setOrder(value)}
+          aria-label="Heatmap order"
+        >
+          <ToggleButton value="table">Table order</ToggleButton>
+          <ToggleButton value="cluster">Clustering</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+      {rows.length === 0 ? (
+        <Typography color="text.secondary" textAlign="center" py={6}>
+          No matching targets
+        </Typography>
+      ) : (
+        <Box ref={containerRef} sx={styles.container}>
+          <Box component="svg" ref={svgRef} sx={styles.svg} aria-label={title} />
+        </Box>
+      )}
+    </Paper>
+  );
+}
@@ -1,10 +1,27 @@
-import { Add, Remove } from "@mui/icons-material";
+import {
+  Add,
+  CompareArrows,
+  FileDownload,
+  OpenInNew,
+  Remove,
+} from "@mui/icons-material";
 import {
   Box,
+  Breadcrumbs,
+  Button,
   ButtonBase,
+  Checkbox,
+  Chip,
   Collapse,
+  FormControl,
+  IconButton,
+  InputLabel,
   Link,
+  ListItemText,
+  Menu,
+  MenuItem,
   Paper,
+  Select,
   Stack,
   Tab,
   Table,
@@ -12,22 +29,113 @@ import {
   TableCell,
   TableContainer,
   TableHead,
+  TablePagination,
   TableRow,
+  TableSortLabel,
   Tabs,
   Tooltip,
   Typography,
 } from "@mui/material";
-import { Fragment,useState } from "react";
+import { Fragment, useEffect, useRef, useState } from "react";
+import { Link as RouterLink } from "react-router";
+
+import { RANK_WINDOW } from "~/lib/datasources";
+import { DATATYPE_IDS } from "~/lib/datatypes";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportScope,
+} from "~/lib/export";
+import { formatLabel } from "~/lib/labels";
+import {
+  OVERALL_SCORE,
+  PAGE_SIZE_OPTIONS,
+  type SortDirection,
+} from "~/lib/params";
+import { openTargetsUrl, targetLinkOuts } from "~/lib/targets";
 
 import BarChart from "./BarChart";
+import KnownDrugsTable from "./KnownDrugsTable";
+import LiteratureTable from "./LiteratureTable";
 import RadarChart from "./RadarChart";
 import type { AssocRow } from "./types";
 
-type Props = { rows: AssocRow[] };
-type TargetLinkProps = { approvedName: string; approvedSymbol: string };
+type PaginationProps = {
+  /** Total number of associated targets across all pages. */
+  count: number;
+  /** Zero-based index of the page shown. */
+  pageIndex: number;
+  pageSize: number;
+  onPageChange: (pageIndex: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+};
+type SortProps = {
+  /** `"score"` for the overall score, otherwise a datatype id. */
+  sortBy: string;
+  direction: SortDirection;
+  onSortChange: (sortBy: string, direction: SortDirection) => void;
+};
+type SelectionProps = {
+  /** Ids of the checked targets, which may be on other pages. */
+  selectedIds: string[];
+  /** Most targets that can be checked at once. */
+  max: number;
+  onChange: (ids: string[]) => void;
+  /** In-app URL comparing the checked targets. */
+  compareHref: (ids: string[]) => string;
+};
+type Props = {
+  rows: AssocRow[];
+  diseaseName: string;
+  pagination?: PaginationProps;
+  sort?: SortProps;
+  /**
+   * Rank change of each target against the default datasource weighting,
+   * keyed by target id (see `rankMovement` in `~/lib/datasources`).
+   */
+  rankMovement?: Record<string, number | null>;
+  /** Ids of targets associated only through descendant disease terms. */
+  indirectOnlyIds?: string[];
+  /** URL of the server-side download for a format and scope. */
+  exportHref?: (format: ExportFormat, scope: ExportScope) => string;
+  /** In-app URL of a row's target page; symbols link off-site without it. */
+  targetHref?: (row: AssocRow) => string;
+  /**
+   * URL of a page of a row's known drugs (`null` cursor for the first);
+   * the expanded rows get a "Known drugs" tab when given.
+   */
+  knownDrugsHref?: (row: AssocRow, cursor: string | null) => string;
+  /**
+   * URL of a page of publications mentioning a row's target and the
+   * disease; the expanded rows get a "Literature" tab when given.
+   */
+  literatureHref?: (row: AssocRow, cursor: string | null) => string;
+  /** Row checkboxes and a **Compare** button for the checked targets. */
+  selection?: SelectionProps;
+  /** Target whose row starts expanded and scrolled into view. */
+  initialOpenId?: string | null;
+};
+type RowTab = "bar" | "radar" | "known-drugs" | "literature";
+type ExportMenuProps = {
+  exportHref: (format: ExportFormat, scope: ExportScope) => string;
+};
+type TargetLinksMenuProps = { row: AssocRow };
+type RankMovementProps = { movement: number | null | undefined };
 
 const styles = {
   paper: { borderRadius: 0, overflow: "hidden" },
+  toolbar: {
+    px: 2,
+    py: 1.5,
+    borderBottom: "1px solid",
+    borderColor: "grey.300",
+  },
+  sortSelect: { minWidth: 220 },
+  selectionBar: { mr: "auto" },
+  indirectChip: { ml: 1 },
+  externalLinks: { ml: 0.5, p: 0.25, fontSize: 14 },
+  externalLinkIcon: { ml: 1, fontSize: 14, color: "text.secondary" },
+  emptyCell: { py: 6, textAlign: "center" },
   expandedBox: { px: 2, py: 2, bgcolor: "background.default" },
   tabsRoot: { minHeight: 36 },
   scoreText: { fontVariantNumeric: "tabular-nums" as const },
@@ -92,14 +200,101 @@ const styles = {
   },
   tab: { height: 20 },
   tabWrapper: { borderBottom: 1, borderColor: "grey.300", mb: 2 },
+  breadcrumbs: { mb: 1 },
 };
 
-function TargetLink({ approvedName, approvedSymbol }: TargetLinkProps) {
-  const href = `https://platform.opentargets.org/target/${encodeURIComponent(approvedName)}`;
+function TargetLinksMenu({ row }: TargetLinksMenuProps) {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
   return (
-    <Link href={href} target="_blank" rel="noreferrer" underline="hover">
-      {approvedSymbol}
-    </Link>
+    <>
+      <Tooltip title="External links">
+        <IconButton
+          size="small"
+          onClick={(event) => setAnchor(event.currentTarget)}
+          aria-label={`External links for ${row.approvedSymbol}`}
+          aria-haspopup="menu"
+          aria-expanded={anchor ? "true" : undefined}
+          sx={styles.externalLinks}
+        >
+          <OpenInNew fontSize="inherit" />
+        </IconButton>
+      </Tooltip>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {targetLinkOuts(row).map(({ label, href }) => (
+          <MenuItem
+            key={label}
+            component="a"
+            href={href}
+            target="_blank"
+            rel="noreferrer"
+            onClick={() => setAnchor(null)}
+          >
+            <ListItemText primary={label} />
+            <OpenInNew sx={styles.externalLinkIcon} />
+          </MenuItem>
+        ))}
+      </Menu>
+    </>
+  );
+}
+
+const EXPORT_SCOPES: { scope: ExportScope; label: string }[] = [
+  { scope: "page", label: "Current page" },
+  { scope: "all", label: "All matching rows" },
+];
+
+function ExportMenu({ exportHref }: ExportMenuProps) {
+  const [anchor, setAnchor] = useState<HTMLElement | null>(null);
+  return (
+    <>
+      <Button
+        startIcon={<FileDownload />}
+        onClick={(event) => setAnchor(event.currentTarget)}
+        aria-haspopup="menu"
+        aria-expanded={anchor ? "true" : undefined}
+      >
+        Export
+      </Button>
+      <Menu anchorEl={anchor} open={!!anchor} onClose={() => setAnchor(null)}>
+        {EXPORT_SCOPES.flatMap(({ scope, label }) =>
+          EXPORT_FORMATS.map((format) => (
+            <MenuItem
+              key={`${scope}-${format}`}
+              component="a"
+              href={exportHref(format, scope)}
+              download
+              onClick={() => setAnchor(null)}
+            >
+              <ListItemText
+                primary={`${label} as ${format.toUpperCase()}`}
+              />
+            </MenuItem>
+          ))
+        )}
+      </Menu>
+    </>
+  );
+}
+
+function RankMovement({ movement }: RankMovementProps) {
+  if (movement == null) {
+    return (
+      <Tooltip title={`Not in the top ${RANK_WINDOW} with default weights`}>
+        <Typography color="info.main">New</Typography>
+      </Tooltip>
+    );
+  }
+  if (movement === 0) {
+    return <Typography color="text.secondary">–</Typography>;
+  }
+  return (
+    <Typography
+      color={movement > 0 ? "success.main" : "error.main"}
+      sx={styles.scoreText}
+      aria-label={`${movement > 0 ? "Up" : "Down"} ${Math.abs(movement)}`}
+    >
+      {movement > 0 ? "▲" : "▼"} {Math.abs(movement)}
+    </Typography>
   );
 }
 
@@ -108,32 +303,88 @@ function TargetLink({ approvedName, approvedSymbol }: TargetLinkProps) {
  *
  * Each row displays:
  * - An expand/collapse button
- * - The gene's approved symbol (linked to Open Targets)
+ * - The gene's approved symbol, linked to the in-app target page when
+ *   `targetHref` is given, otherwise to Open Targets, followed by a menu of
+ *   external links (Open Targets, Ensembl, UniProt, HGNC, GeneCards)
  * - The gene's approved name
  * - The overall association score (numeric, fixed to 3 decimals)
  *
  * When expanded, a row reveals a tabbed section where the user can
  * switch between a **Bar Chart** and a **Radar Chart** visualization
- * of the per-datatype association scores.
+ * of the per-datatype association scores. Clicking a bar or radar point
+ * drills into a bar chart of the datasources behind that datatype, with a
+ * breadcrumb back to the datatype view. When `knownDrugsHref` is given, a
+ * **Known drugs** tab lists the drugs acting on the target in the disease,
+ * and with `literatureHref` a **Literature** tab lists the publications
+ * mentioning both, with a histogram per year. Both are fetched only once
+ * their tab is opened.
+ *
+ * When `pagination` is given, page controls (with 10/25/50/100 rows per
+ * page) are rendered under the table; paging itself happens in the caller.
+ *
+ * When `sort` is given, the score headers become sortable and a toolbar
+ * offers a datatype selector. Sorting by a datatype adds a column with
+ * that datatype's score. Rows are expected to arrive already sorted.
+ *
+ * When `rankMovement` is given (custom datasource weights), a column shows
+ * how far each target moved compared with the default weighting.
+ *
+ * Targets listed in `indirectOnlyIds` get an "Indirect only" chip next to
+ * their symbol. An empty `rows` array renders a "No matching targets" row.
+ *
+ * `initialOpenId` opens a row from elsewhere (e.g. the heatmap): that row
+ * starts expanded and is scrolled into view.
+ *
+ * When `selection` is given, each row gets a checkbox (up to `max` checked,
+ * kept across pages by the caller) and the toolbar a **Compare** button
+ * linking to the comparison of the checked targets.
+ *
+ * When `exportHref` is given, the toolbar gets an **Export** menu that
+ * downloads the current page or every matching row as CSV or TSV. The files
+ * are built by the server, so they are not limited to the rendered rows.
  *
  * @component
  *
  * @param {Object} props - Component props
  * @param {AssocRow[]} props.rows - An array of association rows,
  * each containing the gene symbol, name, overall score, and datatype scores.
+ * @param {string} props.diseaseName - Name of the disease the rows are associated
+ * with, used in the table label and chart titles.
+ * @param {PaginationProps} [props.pagination] - Total count, current page and
+ * change handlers for the page controls.
+ * @param {SortProps} [props.sort] - Current sort column and direction, and
+ * the handler called when the user picks another one.
+ * @param {Record<string, number | null>} [props.rankMovement] - Rank change per
+ * target id against the default weighting.
+ * @param {string[]} [props.indirectOnlyIds] - Targets with no direct evidence.
+ * @param {Function} [props.exportHref] - Builds the download URL for a format
+ * (`csv`/`tsv`) and scope (`page`/`all`).
+ * @param {Function} [props.targetHref] - Builds the target page URL for a row.
+ * @param {Function} [props.knownDrugsHref] - Builds the URL of a page of a
+ * row's known drugs from the previous page's cursor.
+ * @param {Function} [props.literatureHref] - Builds the URL of a page of a
+ * row's publications from the previous page's cursor.
+ * @param {SelectionProps} [props.selection] - Checked target ids, the
+ * maximum, the change handler and the comparison URL builder.
+ * @param {string} [props.initialOpenId] - Id of the row to open on mount.
  *
  * @example
  * ```tsx
- * <AssociationTable rows={[
+ * <AssociationTable diseaseName="lung carcinoma" rows={[
  *   {
  *     id: "ENSG00000146648",
  *     approvedSymbol: "EGFR",
  *     approvedName: "epidermal growth factor receptor",
+ *     xrefs: { uniprot: "P00533", hgnc: "HGNC:3236" },
  *     score: 0.894,
  *     datatypeScores: [
  *       { id: "known_drug", score: 0.7 },
  *       { id: "literature", score: 0.8 },
  *     ],
+ *     datasourceScores: {
+ *       known_drug: [{ id: "chembl", score: 0.7 }],
+ *       literature: [{ id: "europepmc", score: 0.8 }],
+ *     },
  *     approvedNameRaw: "epidermal growth factor receptor"
  *   }
  * ]} />
@@ -141,31 +392,169 @@ function TargetLink({ approvedName, approvedSymbol }: TargetLinkProps) {
  *
  * @returns {JSX.Element} A table with expandable rows and chart visualizations.
  */
-export default function AssociationTable({ rows }: Props) {
-  const [openId, setOpenId] = useState<string | null>(null);
-  const [tabById, setTabById] = useState<Record<string, 0 | 1>>({}); // 0=bar, 1=radar
+export default function AssociationTable({
+  rows,
+  diseaseName,
+  pagination,
+  sort,
+  rankMovement,
+  indirectOnlyIds,
+  exportHref,
+  targetHref,
+  knownDrugsHref,
+  literatureHref,
+  selection,
+  initialOpenId = null,
+}: Props) {
+  const [openId, setOpenId] = useState<string | null>(initialOpenId);
+  const initialRowRef = useRef<HTMLTableRowElement | null>(null);
+
+  useEffect(() => {
+    initialRowRef.current?.scrollIntoView({ block: "start" });
+  }, []);
+  const [tabById, setTabById] = useState<Record<string, RowTab>>({});
+  // datatype id drilled into, per row; absent = top-level datatype chart
+  const [drillById, setDrillById] = useState<Record<string, string | null>>({});
+
+  const drill = (rowId: string, datatypeId: string | null) =>
+    setDrillById((drills) => ({ ...drills, [rowId]: datatypeId }));
+
+  const sortedDatatype =
+    sort && sort.sortBy !== OVERALL_SCORE ? sort.sortBy : null;
+  const columnCount =
+    4 +
+    (selection ? 1 : 0) +
+    (sortedDatatype ? 1 : 0) +
+    (rankMovement ? 1 : 0);
+
+  const toggleSelected = (id: string) => {
+    if (!selection) return;
+    const { selectedIds, onChange } = selection;
+    onChange(
+      selectedIds.includes(id)
+        ? selectedIds.filter((selectedId) => selectedId !== id)
+        : [...selectedIds, id]
+    );
+  };
+
+  const sortableHeader = (id: string, label: string) => {
+    if (!sort) return <TableCell>{label}</TableCell>;
+    const active = sort.sortBy === id;
+    return (
+      <TableCell sortDirection={active ? sort.direction : false}>
+        <TableSortLabel
+          active={active}
+          direction={active ? sort.direction : "desc"}
+          onClick={() =>
+            sort.onSortChange(
+              id,
+              active && sort.direction === "desc" ? "asc" : "desc"
+            )
+          }
+        >
+          {label}
+        </TableSortLabel>
+      </TableCell>
+    );
+  };
 
   return (
     <Paper variant="outlined" sx={styles.paper}>
+      {(sort || exportHref || selection) && (
+        <Stack
+          direction="row"
+          justifyContent="flex-end"
+          alignItems="center"
+          spacing={2}
+          sx={styles.toolbar}
+        >
+          {selection && (
+            <Stack
+              direction="row"
+              alignItems="center"
+              spacing={1}
+              sx={styles.selectionBar}
+            >
+              <Button
+                variant="contained"
+                component={RouterLink}
+                to={selection.compareHref(selection.selectedIds)}
+                disabled={selection.selectedIds.length < 2}
+                startIcon={<CompareArrows />}
+              >
+                Compare ({selection.selectedIds.length})
+              </Button>
+              {selection.selectedIds.length > 0 ? (
+                <Button onClick={() => selection.onChange([])}>
+                  Clear selection
+                </Button>
+              ) : (
+                <Typography variant="body2" color="text.secondary">
+                  Tick up to {selection.max} targets to compare them
+                </Typography>
+              )}
+            </Stack>
+          )}
+          {sort && (
+            <FormControl size="small" sx={styles.sortSelect}>
+              <InputLabel id="association-sort-label">Sort by</InputLabel>
+              <Select
+                labelId="association-sort-label"
+                label="Sort by"
+                value={sort.sortBy}
+                onChange={(event) =>
+                  sort.onSortChange(event.target.value, "desc")
+                }
+              >
+                <MenuItem value={OVERALL_SCORE}>Overall association score</MenuItem>
+                {DATATYPE_IDS.map((id) => (
+                  <MenuItem key={id} value={id}>
+                    {formatLabel(id)} score
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          )}
+          {exportHref && <ExportMenu exportHref={exportHref} />}
+        </Stack>
+      )}
       <TableContainer>
         <Table
           sx={styles.table}
-          aria-label="Genes associated with lung carcinoma"
+          aria-label={`Genes associated with ${diseaseName}`}
         >
           <TableHead>
             <TableRow>
               <TableCell width={48} />
+              {selection && <TableCell padding="checkbox" />}
               <TableCell>Approved Symbol</TableCell>
               <TableCell>Gene Name</TableCell>
-              <TableCell>Overall Association Score</TableCell>
+              {sortableHeader(OVERALL_SCORE, "Overall Association Score")}
+              {sortedDatatype &&
+                sortableHeader(sortedDatatype, `${formatLabel(sortedDatatype)} Score`)}
+              {rankMovement && <TableCell>Rank vs Default Weights</TableCell>}
             </TableRow>
           </TableHead>
           <TableBody>
+            {rows.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={columnCount} sx={styles.emptyCell}>
+                  <Typography color="text.secondary">
+                    No matching targets
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
             {rows.map((eachRow) => {
-              const tab = tabById[eachRow.id] ?? 0;
+              const tab = tabById[eachRow.id] ?? "bar";
+              const drilled = drillById[eachRow.id] ?? null;
+              const chartTitle = `Data Type Scores: ${eachRow.approvedSymbol} and ${diseaseName}`;
               return (
                 <Fragment key={eachRow.id}>
-                  <TableRow hover>
+                  <TableRow
+                    hover
+                    ref={eachRow.id === initialOpenId ? initialRowRef : undefined}
+                  >
                     <TableCell sx={styles.rowButtonWrapper}>
                       <Tooltip
                         title={openId === eachRow.id ? "Collapse" : "Expand"}
@@ -186,11 +575,56 @@ export default function AssociationTable({ rows }: Props) {
                       </Tooltip>
                     </TableCell>
 
+                    {selection && (
+                      <TableCell padding="checkbox">
+                        <Checkbox
+                          checked={selection.selectedIds.includes(eachRow.id)}
+                          disabled={
+                            !selection.selectedIds.includes(eachRow.id) &&
+                            selection.selectedIds.length >= selection.max
+                          }
+                          onChange={() => toggleSelected(eachRow.id)}
+                          slotProps={{
+                            input: {
+                              "aria-label": `Select ${eachRow.approvedSymbol} to compare`,
+                            },
+                          }}
+                        />
+                      </TableCell>
+                    )}
+
                     <TableCell>
-                      <TargetLink
-                        approvedSymbol={eachRow.approvedSymbol}
-                        approvedName={eachRow.approvedName}
-                      />
+                      {targetHref ? (
+                        <Link
+                          component={RouterLink}
+                          to={targetHref(eachRow)}
+                          underline="hover"
+                        >
+                          {eachRow.approvedSymbol}
+                        </Link>
+                      ) : (
+                        <Link
+                          href={openTargetsUrl(eachRow.id)}
+                          target="_blank"
+                          rel="noreferrer"
+                          underline="hover"
+                        >
+                          {eachRow.approvedSymbol}
+                        </Link>
+                      )}
+                      <TargetLinksMenu row={eachRow} />
+                      {indirectOnlyIds?.includes(eachRow.id) && (
+                        <Tooltip
+                          title={`No direct evidence: associated with ${diseaseName} only through its descendant terms`}
+                        >
+                          <Chip
+                            size="small"
+                            variant="outlined"
+                            label="Indirect only"
+                            sx={styles.indirectChip}
+                          />
+                        </Tooltip>
+                      )}
                     </TableCell>
 
                     <TableCell>
@@ -202,10 +636,28 @@ export default function AssociationTable({ rows }: Props) {
                         {eachRow.score.toFixed(3)}
                       </Typography>
                     </TableCell>
+
+                    {sortedDatatype && (
+                      <TableCell>
+                        <Typography sx={styles.scoreText}>
+                          {(
+                            eachRow.datatypeScores.find(
+                              (d) => d.id === sortedDatatype
+                            )?.score ?? 0
+                          ).toFixed(3)}
+                        </Typography>
+                      </TableCell>
+                    )}
+
+                    {rankMovement && (
+                      <TableCell>
+                        <RankMovement movement={rankMovement[eachRow.id]} />
+                      </TableCell>
+                    )}
                   </TableRow>
 
                   <TableRow>
-                    <TableCell colSpan={4} sx={{ p: 0, border: 0 }}>
+                    <TableCell colSpan={columnCount} sx={{ p: 0, border: 0 }}>
                       <Collapse
                         in={openId === eachRow.id}
                         timeout="auto"
@@ -220,30 +672,104 @@ export default function AssociationTable({ rows }: Props) {
                           >
                             <Tabs
                               value={tab}
-                              onChange={(_, value: 0 | 1) =>
+                              onChange={(_, value: RowTab) => {
                                 setTabById((tabIds) => ({
                                   ...tabIds,
                                   [eachRow.id]: value,
-                                }))
-                              }
+                                }));
+                                drill(eachRow.id, null);
+                              }}
                               aria-label="chart view tabs"
                               sx={styles.tabRoot}
                             >
-                              <Tab label="Bar chart" sx={styles.tab} />
-                              <Tab label="Radar chart" sx={styles.tab} />
+                              <Tab value="bar" label="Bar chart" sx={styles.tab} />
+                              <Tab
+                                value="radar"
+                                label="Radar chart"
+                                sx={styles.tab}
+                              />
+                              {knownDrugsHref && (
+                                <Tab
+                                  value="known-drugs"
+                                  label="Known drugs"
+                                  sx={styles.tab}
+                                />
+                              )}
+                              {literatureHref && (
+                                <Tab
+                                  value="literature"
+                                  label="Literature"
+                                  sx={styles.tab}
+                                />
+                              )}
                             </Tabs>
                           </Stack>
 
-                          {tab === 0 ? (
-                            <BarChart
-                              items={eachRow.datatypeScores}
-                              title={`Data Type Scores: ${eachRow.approvedSymbol} and lung carcinoma`}
+                          {tab === "known-drugs" && knownDrugsHref ? (
+                            <KnownDrugsTable
+                              href={(cursor) => knownDrugsHref(eachRow, cursor)}
+                              targetSymbol={eachRow.approvedSymbol}
+                              diseaseName={diseaseName}
                             />
-                          ) : (
-                            <RadarChart
-                              items={eachRow.datatypeScores}
-                              title={`Data Type Scores: ${eachRow.approvedSymbol} and lung carcinoma`}
+                          ) : tab === "literature" && literatureHref ? (
+                            <LiteratureTable
+                              href={(cursor) => literatureHref(eachRow, cursor)}
+                              targetSymbol={eachRow.approvedSymbol}
+                              diseaseName={diseaseName}
                             />
+                          ) : (
+                            <>
+                              <Breadcrumbs
+                                aria-label="Score breakdown"
+                                sx={styles.breadcrumbs}
+                              >
+                                {drilled ? (
+                                  <Link
+                                    component="button"
+                                    type="button"
+                                    underline="hover"
+                                    onClick={() => drill(eachRow.id, null)}
+                                  >
+                                    All data types
+                                  </Link>
+                                ) : (
+                                  <Typography color="text.primary">
+                                    All data types
+                                  </Typography>
+                                )}
+                                {drilled && (
+                                  <Typography color="text.primary">
+                                    {formatLabel(drilled)}
+                                  </Typography>
+                                )}
+                              </Breadcrumbs>
+
+                              {drilled ? (
+                                (eachRow.datasourceScores[drilled] ?? []).length > 0 ? (
+                                  <BarChart
+                                    items={eachRow.datasourceScores[drilled]}
+                                    xLabel="Data Source"
+                                    title={`${formatLabel(drilled)} Data Source Scores: ${eachRow.approvedSymbol} and ${diseaseName}`}
+                                  />
+                                ) : (
+                                  <Typography color="text.secondary">
+                                    No data source scores for {formatLabel(drilled)}.
+                                  </Typography>
+                                )
+                              ) : tab === "bar" ? (
+                                <BarChart
+                                  items={eachRow.datatypeScores}
+                                  title={chartTitle}
+                                  onSelect={(id) => drill(eachRow.id, id)}
+                                />
+                              ) : (
+                                <RadarChart
+                                  items={eachRow.datatypeScores}
+                                  title={chartTitle}
+                                  onSelect={(id) => drill(eachRow.id, id)}
+                                />
+                              )}
+                            </>
                           )}
                         </Box>
                       </Collapse>
@@ -255,6 +781,19 @@ export default function AssociationTable({ rows }: Props) {
           </TableBody>
         </Table>
       </TableContainer>
+      {pagination && (
+        <TablePagination
+          component="div"
+          count={pagination.count}
+          page={pagination.pageIndex}
+          rowsPerPage={pagination.pageSize}
+          rowsPerPageOptions={[...PAGE_SIZE_OPTIONS]}
+          onPageChange={(_, page) => pagination.onPageChange(page)}
+          onRowsPerPageChange={(event) =>
+            pagination.onPageSizeChange(Number(event.target.value))
+          }
+        />
+      )}
     </Paper>
   );
 }
@@ -1,17 +1,28 @@
 import { Box } from "@mui/material";
 import * as d3 from "d3";
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 
+import { seriesColor } from "~/lib/colors";
 import { formatLabel } from "~/lib/labels";
 
-import type { Datum } from "./types";
+import ChartLegend from "./ChartLegend";
+import type { ChartSeries, Datum } from "./types";
 
 export type BarItem = { id: string; score: number };
+/** A bar: one series' score for one item. */
+type BarDatum = Datum & { seriesIndex: number; seriesLabel: string };
 type Props = {
-  items: BarItem[];
+  /** Scores of a single target; ignored when `series` is given. */
+  items?: BarItem[];
+  /** Several targets as grouped bars in distinct colours, with a legend. */
+  series?: ChartSeries[];
   title: string;
   height?: number;
   width?: number;
+  /** X-axis caption. */
+  xLabel?: string;
+  /** Makes bars clickable (and activatable with Enter); called with the item id. */
+  onSelect?: (id: string) => void;
 };
 
 const styles = {
@@ -46,15 +57,24 @@ const styles = {
  * - Y-axis: normalized scores from 0.000 to 1.000 (three decimals).
  * - Bars: blue rectangles sized by score value.
  * - Chart title and axis labels for context.
+ * - Optional comparison: with `series`, each item gets a group of bars, one
+ *   per series in its own colour (missing scores count as 0), and a legend
+ *   whose chips hide or show each series.
+ * - Optional drill-down: with `onSelect`, clicking a bar (or pressing Enter
+ *   on a focused bar) reports the bar's item id.
  *
  * @component
  *
  * @param {Object} props - Component props.
  * @param {BarItem[]} props.items - Array of `{ id, score }` items representing
  * datatype identifiers and their scores.
+ * @param {ChartSeries[]} [props.series] - `{ id, label, items }` per target,
+ * drawn instead of `items`.
  * @param {string} props.title - Title displayed above the chart.
  * @param {number} [props.height=360] - Height of the chart in pixels.
  * @param {number} [props.width=640] - Width of the chart in pixels.
+ * @param {string} [props.xLabel="Data Type"] - X-axis caption.
+ * @param {Function} [props.onSelect] - Called with the id of a clicked bar.
  *
  * @example
  * ```tsx
@@ -66,18 +86,41 @@ const styles = {
  *     { id: "genetic_association", score: 0.9 },
  *   ]}
  * />
+ *
+ * <BarChart
+ *   title="Data Type Scores: EGFR and KRAS in lung carcinoma"
+ *   series={[
+ *     { id: "ENSG00000146648", label: "EGFR", items: egfrScores },
+ *     { id: "ENSG00000133703", label: "KRAS", items: krasScores },
+ *   ]}
+ * />
  * ```
  *
  * @returns {JSX.Element} A responsive bar chart rendered in an SVG element.
  */
 export default function BarChart({
   items,
+  series,
   title,
   height = 360,
   width = 640,
+  xLabel = "Data Type",
+  onSelect,
 }: Props) {
   const svgRef = useRef<SVGSVGElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+  // Read by the D3 handlers, so that a new callback does not redraw the chart
+  const onSelectRef = useRef(onSelect);
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  });
+  const selectable = onSelect != null;
+
+  const allSeries = useMemo(
+    () => series ?? [{ id: "score", label: "Score", items: items ?? [] }],
+    [items, series]
+  );
 
   useEffect(() => {
     if (!svgRef.current || !containerRef.current) return;
@@ -114,17 +157,43 @@ export default function BarChart({
       .append("g")
       .attr("transform", `translate(${margin.left},${margin.top})`);
 
-    const data: Datum[] = items.map((d) => ({
-      label: formatLabel(d.id),
-      value: d.score ?? 0,
-    }));
+    const ids = [...new Set(allSeries.flatMap((s) => s.items.map((d) => d.id)))];
+    const visible = allSeries
+      .map((s, seriesIndex) => ({ ...s, seriesIndex }))
+      .filter((s) => !hiddenIds.includes(s.id));
+    const data: BarDatum[] = visible.flatMap((s) =>
+      ids.map((id) => ({
+        id,
+        label: formatLabel(id),
+        value: s.items.find((d) => d.id === id)?.score ?? 0,
+        seriesIndex: s.seriesIndex,
+        seriesLabel: s.label,
+      }))
+    );
 
     const x = d3
       .scaleBand<string>()
-      .domain(data.map((d) => d.label))
+      .domain(ids.map(formatLabel))
       .range([0, w])
       .padding(0.3);
 
+    // Position of each series' bar within an item's group
+    const xSeries = d3
+      .scaleBand<number>()
+      .domain(visible.map((s) => s.seriesIndex))
+      .range([0, x.bandwidth()])
+      .padding(series ? 0.08 : 0);
+
+    const fmt = d3.format(".3f");
+    const color = (d: BarDatum) => seriesColor(d.seriesIndex);
+    const hoverColor = (d: BarDatum) =>
+      series ? d3.color(color(d))!.darker(0.6).formatHex() : "#1669a8";
+    // A single series reads "Known Drug / Score: …", a comparison "EGFR / Known Drug: …"
+    const describe = (d: BarDatum) =>
+      series
+        ? `<strong>${d.seriesLabel}</strong><br/>${d.label}: ${fmt(d.value)}`
+        : `<strong>${d.label}</strong><br/>Score: ${fmt(d.value)}`;
+
     const y = d3.scaleLinear().domain([0, 1]).range([h, 0]);
 
     // Axes
@@ -149,56 +218,67 @@ export default function BarChart({
       .attr("font-size", 10);
 
 
-    
-    const fmt = d3.format(".3f");
     const bars = g
-      .selectAll<SVGRectElement, Datum>("rect.bar")
+      .selectAll<SVGRectElement, BarDatum>("rect.bar")
       .data(data)
       .enter()
       .append("rect")
       .attr("class", "bar")
-      .attr("x", (d) => x(d.label)!)
+      .attr("x", (d) => x(d.label)! + xSeries(d.seriesIndex)!)
       .attr("y", (d) => y(d.value))
-      .attr("width", x.bandwidth())
+      .attr("width", xSeries.bandwidth())
       .attr("height", (d) => h - y(d.value))
-      .attr("fill", "#1f77b4")
+      .attr("fill", color)
       .attr("rx", 2)
       .attr("ry", 2)
       .attr("tabindex", 0); 
 
     bars
       .append("title")
-      .text((d: Datum) => `${d.label}: ${fmt(d.value)}`);
+      .text(
+        (d) =>
+          `${series ? `${d.seriesLabel} ` : ""}${d.label}: ${fmt(d.value)}`
+      );
 
     // Hover interactions
     bars
       .on("mouseenter", function (_event, d) {
-        d3.select(this).attr("fill", "#1669a8"); 
-        tooltip.style("opacity", "1").html(
-          `<strong>${d.label}</strong><br/>Score: ${fmt(d.value)}`
-        );
+        d3.select(this).attr("fill", hoverColor(d));
+        tooltip.style("opacity", "1").html(describe(d));
       })
       .on("mousemove", function (event) {
         const [mx] = d3.pointer(event, containerRef.current);
         tooltip
           .style("left", `${mx}px`)
       })
-      .on("mouseleave", function () {
-        d3.select(this).attr("fill", "#1f77b4");
+      .on("mouseleave", function (_event, d) {
+        d3.select(this).attr("fill", color(d));
         tooltip.style("opacity", "0");
       })
       // Basic keyboard a11y: show tooltip on focus
       .on("focus", function (_event, d) {
-        d3.select(this).attr("fill", "#1669a8");
-        tooltip.style("opacity", "1").html(
-          `<strong>${d.label}</strong><br/>Score: ${fmt(d.value)}`
-        );
+        d3.select(this).attr("fill", hoverColor(d));
+        tooltip.style("opacity", "1").html(describe(d));
       })
-      .on("blur", function () {
-        d3.select(this).attr("fill", "#1f77b4");
+      .on("blur", function (_event, d) {
+        d3.select(this).attr("fill", color(d));
         tooltip.style("opacity", "0");
       });
 
+    if (selectable) {
+      bars
+        .attr("cursor", "pointer")
+        .attr("role", "button")
+        .attr("aria-label", (d) => `Show ${d.label} breakdown`)
+        .on("click", (_event, d) => onSelectRef.current?.(d.id))
+        .on("keydown", (event: KeyboardEvent, d) => {
+          if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault();
+            onSelectRef.current?.(d.id);
+          }
+        });
+    }
+
     // Chart title
     svg
       .append("text")
@@ -215,7 +295,7 @@ export default function BarChart({
       .attr("y", height - 10)
       .attr("text-anchor", "middle")
       .attr("font-size", 10)
-      .text("Data Type");
+      .text(xLabel);
 
     svg
       .append("text")
@@ -229,11 +309,33 @@ export default function BarChart({
     return () => {
       tooltip.remove();
     };
-  }, [items, title, height, width]);
+  }, [
+    allSeries,
+    series,
+    hiddenIds,
+    title,
+    height,
+    width,
+    xLabel,
+    selectable,
+  ]);
 
   return (
-    <Box ref={containerRef} sx={styles.container}>
-      <Box component="svg" ref={svgRef} sx={styles.svg} aria-label={title} />
+    <Box>
+      <Box ref={containerRef} sx={styles.container}>
+        <Box component="svg" ref={svgRef} sx={styles.svg} aria-label={title} />
+      </Box>
+      {series && (
+        <ChartLegend
+          series={series}
+          hiddenIds={hiddenIds}
+          onToggle={(id) =>
+            setHiddenIds((ids) =>
+              ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]
+            )
+          }
+        />
+      )}
     </Box>
   );
 }
\ No newline at end of file
@@ -0,0 +1,72 @@
+import { Box, Chip, Stack } from "@mui/material";
+
+import { seriesColor } from "~/lib/colors";
+
+import type { ChartSeries } from "./types";
+
+type Props = {
+  series: ChartSeries[];
+  /** Ids of the series currently hidden. */
+  hiddenIds: string[];
+  onToggle: (id: string) => void;
+};
+
+const styles = {
+  legend: { flexWrap: "wrap" as const, gap: 1, justifyContent: "center" },
+  swatch: { width: 10, height: 10, borderRadius: "50%", ml: 1 },
+};
+
+/**
+ * Legend of a multi-series chart: one chip per series in its colour, which
+ * hides or shows that series when clicked.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {ChartSeries[]} props.series - Series in chart order; colours come
+ * from their position.
+ * @param {string[]} props.hiddenIds - Ids of the hidden series.
+ * @param {Function} props.onToggle - Called with the id of a clicked series.
+ *
+ * @returns {JSX.Element} A row of toggle chips.
+ *
+ * @example
+ * <ChartLegend
+ *   series={series}
+ *   hiddenIds={hidden}
+ *   onToggle={(id) =>
+ *     setHidden((ids) =>
+ *       ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]
+ *     )
+ *   }
+ * />
+ */
+export default function ChartLegend({ series, hiddenIds, onToggle }: Props) {
+  return (
+    <Stack direction="row" sx={styles.legend} mt={1}>
+      {series.map((s, i) => {
+        const hidden = hiddenIds.includes(s.id);
+        return (
+          <Chip
+            key={s.id}
+            size="small"
+            label={s.label}
+            variant={hidden ? "outlined" : "filled"}
+            icon={
+              <Box
+                sx={{
+                  ...styles.swatch,
+                  bgcolor: hidden ? "transparent" : seriesColor(i),
+                  border: `2px solid ${seriesColor(i)}`,
+                }}
+              />
+            }
+            onClick={() => onToggle(s.id)}
+            aria-pressed={!hidden}
+            title={hidden ? `Show ${s.label}` : `Hide ${s.label}`}
+          />
+        );
+      })}
+    </Stack>
+  );
+}
@@ -0,0 +1,156 @@
+import { ExpandMore } from "@mui/icons-material";
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Box,
+  Button,
+  Chip,
+  FormControlLabel,
+  Slider,
+  Stack,
+  Switch,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+
+import { formatLabel } from "~/lib/labels";
+
+import type { DatasourceSetting } from "./types";
+
+type Props = {
+  /** Open Targets default settings, one entry per datasource. */
+  defaults: DatasourceSetting[];
+  /** Weight overrides currently applied, keyed by datasource id. */
+  weights: Record<string, number>;
+  /** Datasource ids currently marked as required. */
+  required: string[];
+  onApply: (weights: Record<string, number>, required: string[]) => void;
+};
+
+const styles = {
+  accordion: { borderRadius: 0, mb: 2 },
+  summaryContent: { alignItems: "center", gap: 1 },
+  grid: {
+    display: "grid",
+    gridTemplateColumns: "minmax(160px, 1fr) 2fr 56px auto",
+    alignItems: "center",
+    columnGap: 3,
+    rowGap: 0.5,
+  },
+  weight: { fontVariantNumeric: "tabular-nums" as const, textAlign: "right" },
+  actions: { mt: 2 },
+};
+
+/**
+ * Collapsible panel for re-weighting the Open Targets datasources.
+ *
+ * Lists every datasource with a weight slider (0 → 1) and a "Required"
+ * toggle. Edits stay local until **Apply** is pressed, so the associations
+ * are only re-scored once per change set; **Reset** restores the defaults.
+ * Only values that differ from `defaults` are passed to `onApply`.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {DatasourceSetting[]} props.defaults - Default datasource settings.
+ * @param {Record<string, number>} props.weights - Applied weight overrides.
+ * @param {string[]} props.required - Applied required datasource ids.
+ * @param {Function} props.onApply - Called with the new overrides.
+ *
+ * @returns {JSX.Element} An accordion with one row per datasource.
+ */
+export default function DatasourceWeightsPanel({
+  defaults,
+  weights,
+  required,
+  onApply,
+}: Props) {
+  const [draftWeights, setDraftWeights] = useState(weights);
+  const [draftRequired, setDraftRequired] = useState(required);
+
+  const isCustom =
+    Object.keys(weights).length > 0 || required.length > 0;
+
+  const apply = () => {
+    const changed = Object.fromEntries(
+      Object.entries(draftWeights).filter(
+        ([id, weight]) => defaults.find((d) => d.id === id)?.weight !== weight
+      )
+    );
+    onApply(changed, draftRequired);
+  };
+
+  const reset = () => {
+    setDraftWeights({});
+    setDraftRequired([]);
+    onApply({}, []);
+  };
+
+  return (
+    <Accordion variant="outlined" disableGutters sx={styles.accordion}>
+      <AccordionSummary
+        expandIcon={<ExpandMore />}
+        sx={{ "& .MuiAccordionSummary-content": styles.summaryContent }}
+      >
+        <Typography fontWeight={600}>Datasource weights</Typography>
+        {isCustom && <Chip size="small" color="primary" label="Custom" />}
+      </AccordionSummary>
+      <AccordionDetails>
+        <Box sx={styles.grid}>
+          {defaults.map((d) => {
+            const weight = draftWeights[d.id] ?? d.weight;
+            const label = formatLabel(d.id);
+            return (
+              <Box key={d.id} sx={{ display: "contents" }}>
+                <Typography variant="body2">{label}</Typography>
+                <Slider
+                  size="small"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={weight}
+                  onChange={(_, value) =>
+                    setDraftWeights((current) => ({
+                      ...current,
+                      [d.id]: value,
+                    }))
+                  }
+                  slotProps={{ input: { "aria-label": `${label} weight` } }}
+                />
+                <Typography variant="body2" sx={styles.weight}>
+                  {weight.toFixed(2)}
+                </Typography>
+                <FormControlLabel
+                  label="Required"
+                  control={
+                    <Switch
+                      size="small"
+                      checked={d.required || draftRequired.includes(d.id)}
+                      disabled={d.required}
+                      onChange={(_, checked) =>
+                        setDraftRequired((current) =>
+                          checked
+                            ? [...current, d.id]
+                            : current.filter((id) => id !== d.id)
+                        )
+                      }
+                    />
+                  }
+                />
+              </Box>
+            );
+          })}
+        </Box>
+        <Stack direction="row" spacing={1} sx={styles.actions}>
+          <Button variant="contained" onClick={apply}>
+            Apply
+          </Button>
+          <Button onClick={reset} disabled={!isCustom}>
+            Reset to defaults
+          </Button>
+        </Stack>
+      </AccordionDetails>
+    </Accordion>
+  );
+}
@@ -0,0 +1,363 @@
+import { ChevronRight, ExpandMore } from "@mui/icons-material";
+import {
+  Accordion,
+  AccordionDetails,
+  AccordionSummary,
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Link,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { Fragment, useEffect, useState } from "react";
+import { Link as RouterLink, useFetcher } from "react-router";
+
+import { diseaseComparePath, MAX_COMPARE_DISEASES } from "~/lib/compare";
+import { diseasePath } from "~/lib/diseases";
+import type { RouteErrorData } from "~/lib/errors";
+import type { DiseaseOntology } from "~/lib/ontology.server";
+
+import type { OntologyTerm } from "./types";
+
+type Props = {
+  efoId: string;
+  diseaseName: string;
+  /** URL of the ontology resource route for a disease. */
+  href: (efoId: string) => string;
+};
+
+type OntologyResponse = DiseaseOntology | { error: RouteErrorData };
+
+/** Ticked subterms to compare with the disease being viewed. */
+type CompareSelection = {
+  selectedIds: string[];
+  onToggle: (id: string) => void;
+};
+
+const styles = {
+  accordion: { borderRadius: 0, mb: 2 },
+  summaryContent: { alignItems: "center", gap: 1 },
+  status: { py: 1 },
+  level: {
+    display: "grid",
+    gridTemplateColumns: "140px 1fr",
+    alignItems: "baseline",
+    columnGap: 2,
+    py: 0.5,
+  },
+  branch: {
+    listStyle: "none",
+    m: 0,
+    pl: 3,
+    borderLeft: 1,
+    borderColor: "divider",
+  },
+  node: { display: "flex", alignItems: "center", gap: 0.5, minHeight: 32 },
+  leafSpacer: { width: 28, flexShrink: 0 },
+};
+
+/** Loads a disease's ontology when the component mounts. */
+function useOntology(url: string) {
+  const fetcher = useFetcher<OntologyResponse>();
+  const { load } = fetcher;
+  useEffect(() => {
+    void load(url);
+  }, [url, load]);
+
+  const { data, state } = fetcher;
+  if (state !== "idle" || !data) return { loading: true } as const;
+  if ("error" in data) return { loading: false, error: data.error } as const;
+  return { loading: false, ontology: data } as const;
+}
+
+function TermLink({ term }: { term: { id: string; name: string } }) {
+  return (
+    <Link component={RouterLink} to={diseasePath(term.id)} underline="hover">
+      {term.name}
+    </Link>
+  );
+}
+
+/** Child terms of a disease, loaded when their parent node is expanded. */
+function OntologyBranch({
+  efoId,
+  href,
+}: {
+  efoId: string;
+  href: Props["href"];
+}) {
+  const result = useOntology(href(efoId));
+
+  if (result.loading) {
+    return (
+      <Stack direction="row" spacing={1} alignItems="center" sx={styles.status}>
+        <CircularProgress size={14} />
+        <Typography variant="body2" color="text.secondary">
+          Loading…
+        </Typography>
+      </Stack>
+    );
+  }
+  if (result.error) {
+    return (
+      <Typography variant="body2" color="error" sx={styles.status}>
+        {result.error.message}
+      </Typography>
+    );
+  }
+  return <OntologyChildren terms={result.ontology.children} href={href} />;
+}
+
+function OntologyNode({
+  term,
+  href,
+  selection,
+}: {
+  term: OntologyTerm;
+  href: Props["href"];
+  selection?: CompareSelection;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const selected = selection?.selectedIds.includes(term.id) ?? false;
+
+  return (
+    <Box component="li">
+      <Box sx={styles.node}>
+        {selection && (
+          <Checkbox
+            size="small"
+            checked={selected}
+            // The disease itself takes one of the compared slots
+            disabled={
+              !selected &&
+              selection.selectedIds.length >= MAX_COMPARE_DISEASES - 1
+            }
+            onChange={() => selection.onToggle(term.id)}
+            slotProps={{
+              input: { "aria-label": `Select ${term.name} to compare` },
+            }}
+          />
+        )}
+        {term.childCount > 0 ? (
+          <IconButton
+            size="small"
+            aria-expanded={expanded}
+            aria-label={`${expanded ? "Collapse" : "Expand"} ${term.name}`}
+            onClick={() => setExpanded((open) => !open)}
+          >
+            {expanded ? (
+              <ExpandMore fontSize="small" />
+            ) : (
+              <ChevronRight fontSize="small" />
+            )}
+          </IconButton>
+        ) : (
+          <Box sx={styles.leafSpacer} />
+        )}
+        <TermLink term={term} />
+        {term.childCount > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {term.childCount} {term.childCount === 1 ? "subterm" : "subterms"}
+          </Typography>
+        )}
+      </Box>
+      {expanded && <OntologyBranch efoId={term.id} href={href} />}
+    </Box>
+  );
+}
+
+function OntologyChildren({
+  terms,
+  href,
+  selection,
+}: {
+  terms: OntologyTerm[];
+  href: Props["href"];
+  /** Makes these terms (not their descendants) selectable for comparison. */
+  selection?: CompareSelection;
+}) {
+  return (
+    <Box component="ul" sx={styles.branch}>
+      {terms.map((term) => (
+        <OntologyNode
+          key={term.id}
+          term={term}
+          href={href}
+          selection={selection}
+        />
+      ))}
+    </Box>
+  );
+}
+
+/** One level above the current term: its therapeutic areas or parents. */
+function OntologyLevel({
+  label,
+  terms,
+}: {
+  label: string;
+  terms: { id: string; name: string }[];
+}) {
+  if (terms.length === 0) return null;
+  return (
+    <Box sx={styles.level}>
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="body2">
+        {terms.map((term, i) => (
+          <Fragment key={term.id}>
+            {i > 0 && " · "}
+            <TermLink term={term} />
+          </Fragment>
+        ))}
+      </Typography>
+    </Box>
+  );
+}
+
+function OntologyTree({ efoId, href }: { efoId: string; href: Props["href"] }) {
+  const result = useOntology(href(efoId));
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  if (result.loading) {
+    return (
+      <Stack direction="row" spacing={2} alignItems="center" sx={styles.status}>
+        <CircularProgress size={20} />
+        <Typography color="text.secondary">Loading ontology…</Typography>
+      </Stack>
+    );
+  }
+  if (result.error) {
+    return <Alert severity="error">{result.error.message}</Alert>;
+  }
+
+  const { disease, therapeuticAreas, parents, children, warnings } =
+    result.ontology;
+  return (
+    <Box>
+      {warnings.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 1 }}>
+          {warnings.join("; ")}
+        </Alert>
+      )}
+      <OntologyLevel
+        label={
+          therapeuticAreas.length === 1 ? "Therapeutic area" : "Therapeutic areas"
+        }
+        terms={therapeuticAreas}
+      />
+      <OntologyLevel
+        label={parents.length === 1 ? "Parent" : "Parents"}
+        terms={parents}
+      />
+      <Box sx={styles.level}>
+        <Typography variant="body2" color="text.secondary">
+          This disease
+        </Typography>
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Typography variant="body2" fontWeight={600}>
+            {disease.name}
+          </Typography>
+          {disease.isTherapeuticArea && (
+            <Chip size="small" label="Therapeutic area" />
+          )}
+        </Stack>
+      </Box>
+      {children.length > 0 ? (
+        <>
+          <OntologyChildren
+            terms={children}
+            href={href}
+            selection={{
+              selectedIds: compareIds,
+              onToggle: (id) =>
+                setCompareIds((ids) =>
+                  ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]
+                ),
+            }}
+          />
+          <Stack direction="row" spacing={2} alignItems="center" mt={1}>
+            <Button
+              size="small"
+              variant="outlined"
+              component={RouterLink}
+              to={diseaseComparePath([disease.id, ...compareIds])}
+              disabled={compareIds.length === 0}
+            >
+              Compare targets ({compareIds.length + 1})
+            </Button>
+            <Typography variant="caption" color="text.secondary">
+              Tick up to {MAX_COMPARE_DISEASES - 1} subterms to compare their
+              targets with {disease.name}
+            </Typography>
+          </Stack>
+        </>
+      ) : (
+        <Typography variant="body2" color="text.secondary" sx={styles.status}>
+          {disease.name} has no subterms.
+        </Typography>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Collapsible panel showing where a disease sits in the EFO hierarchy:
+ * its therapeutic areas, its parents, the disease itself and its children.
+ *
+ * Nothing is fetched until the panel is opened. Children that have subterms
+ * of their own can be expanded, loading one level at a time from the
+ * ontology resource route. Every term links to its association table, and
+ * ticking direct children opens a comparison of their associated targets
+ * with the disease's.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {string} props.efoId - EFO id of the disease being viewed.
+ * @param {string} props.diseaseName - Name of the disease, for the summary.
+ * @param {Function} props.href - Builds the ontology URL of a disease.
+ *
+ * @returns {JSX.Element} An accordion holding the ontology tree.
+ *
+ * @example
+ * <DiseaseOntologyPanel
+ *   efoId="EFO_0001071"
+ *   diseaseName="lung carcinoma"
+ *   href={(efoId) => `/api/diseases/${efoId}/ontology`}
+ * />
+ */
+export default function DiseaseOntologyPanel({
+  efoId,
+  diseaseName,
+  href,
+}: Props) {
+  return (
+    <Accordion
+      variant="outlined"
+      disableGutters
+      sx={styles.accordion}
+      slotProps={{ transition: { unmountOnExit: true } }}
+    >
+      <AccordionSummary
+        expandIcon={<ExpandMore />}
+        sx={{ "& .MuiAccordionSummary-content": styles.summaryContent }}
+      >
+        <Typography fontWeight={600}>Disease ontology</Typography>
+        <Typography variant="body2" color="text.secondary">
+          Where {diseaseName} sits in EFO
+        </Typography>
+      </AccordionSummary>
+      <AccordionDetails>
+        {/* Keyed so that subterms ticked for another disease are dropped */}
+        <OntologyTree key={efoId} efoId={efoId} href={href} />
+      </AccordionDetails>
+    </Accordion>
+  );
+}
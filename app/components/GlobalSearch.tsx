@@ -0,0 +1,180 @@
+import { Search } from "@mui/icons-material";
+import {
+  Autocomplete,
+  Box,
+  InputAdornment,
+  ListSubheader,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useEffect, useState } from "react";
+import { useFetcher, useNavigate, useParams } from "react-router";
+
+import type { RouteErrorData } from "~/lib/errors";
+import {
+  MIN_SEARCH_LENGTH,
+  normalizeSearchQuery,
+  searchHitHref,
+} from "~/lib/search";
+import type { SearchData } from "~/lib/search.server";
+
+import type { SearchHit } from "./types";
+
+type SearchResponse = SearchData | { error: RouteErrorData };
+
+const DEBOUNCE_MS = 300;
+
+const ENTITY_LABELS: Record<string, string> = {
+  disease: "Diseases",
+  target: "Targets",
+  drug: "Drugs",
+};
+
+const styles = {
+  root: { width: { xs: "100%", md: 420 } },
+  groupHeader: { lineHeight: 2.5, fontWeight: 700 },
+  description: {
+    display: "-webkit-box",
+    WebkitLineClamp: 1,
+    WebkitBoxOrient: "vertical" as const,
+    overflow: "hidden",
+  },
+};
+
+/** React warns when a `key` is spread into JSX, so pass it on separately. */
+function splitKey({
+  key,
+  ...optionProps
+}: React.HTMLAttributes<HTMLLIElement> & { key: React.Key }) {
+  return { key, optionProps };
+}
+
+/**
+ * Site-wide search for diseases, targets and drugs, backed by
+ * `/api/search` (Open Targets `Query.search`).
+ *
+ * Typing is debounced before a request goes out, and nothing is sent under
+ * two characters. Hits are grouped by entity, each group headed with its
+ * total number of matches. Arrow keys move through the hits and Enter
+ * (the first hit is highlighted) opens one:
+ * - a disease opens its association page
+ * - a target opens its target page, in the context of the disease being
+ *   viewed (lung carcinoma elsewhere)
+ * - a drug opens its Open Targets page in a new tab
+ *
+ * @component
+ *
+ * @returns {JSX.Element} An autocomplete search field.
+ *
+ * @example
+ * <GlobalSearch />
+ */
+export default function GlobalSearch() {
+  const [input, setInput] = useState("");
+  const fetcher = useFetcher<SearchResponse>();
+  const navigate = useNavigate();
+  const { efoId } = useParams();
+
+  const query = normalizeSearchQuery(input);
+  const { load } = fetcher;
+  useEffect(() => {
+    if (query.length < MIN_SEARCH_LENGTH) return;
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ q: query });
+      void load(`/api/search?${params.toString()}`);
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, load]);
+
+  const data = query.length >= MIN_SEARCH_LENGTH ? fetcher.data : undefined;
+  const groups = data && !("error" in data) ? data.groups : [];
+  const totals = new Map(groups.map((g) => [g.entity, g.total]));
+  const options = groups.flatMap((g) => g.hits);
+
+  const open = (hit: SearchHit) => {
+    const { href, external } = searchHitHref(hit, efoId);
+    if (external) window.open(href, "_blank", "noreferrer");
+    else void navigate(href);
+  };
+
+  return (
+    <Autocomplete
+      size="small"
+      sx={styles.root}
+      options={options}
+      value={null}
+      inputValue={input}
+      onInputChange={(_, value, reason) => {
+        if (reason !== "reset") setInput(value);
+      }}
+      onChange={(_, hit) => {
+        if (!hit) return;
+        setInput("");
+        open(hit);
+      }}
+      groupBy={(hit) => hit.entity}
+      getOptionLabel={(hit) => hit.name}
+      getOptionKey={(hit) => `${hit.entity}:${hit.id}`}
+      isOptionEqualToValue={(hit, value) =>
+        hit.entity === value.entity && hit.id === value.id
+      }
+      filterOptions={(x) => x}
+      autoHighlight
+      loading={fetcher.state === "loading"}
+      noOptionsText={
+        data && "error" in data
+          ? "Search is unavailable right now"
+          : query.length < MIN_SEARCH_LENGTH
+            ? `Type at least ${MIN_SEARCH_LENGTH} characters`
+            : "No matches"
+      }
+      renderGroup={({ key, group, children }) => (
+        <li key={key}>
+          <ListSubheader component="div" sx={styles.groupHeader}>
+            {ENTITY_LABELS[group] ?? group} ·{" "}
+            {(totals.get(group) ?? 0).toLocaleString("en-US")} matches
+          </ListSubheader>
+          <ul style={{ padding: 0 }}>{children}</ul>
+        </li>
+      )}
+      renderOption={(props, hit) => {
+        const { key, optionProps } = splitKey(props);
+        return (
+          <Box component="li" key={key} {...optionProps}>
+            <Box>
+              <Typography variant="body2">{hit.name}</Typography>
+              <Typography
+                variant="caption"
+                color="text.secondary"
+                sx={styles.description}
+              >
+                {hit.id}
+                {hit.description && ` — ${hit.description}`}
+              </Typography>
+            </Box>
+          </Box>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          placeholder="Search diseases, targets or drugs"
+          slotProps={{
+            htmlInput: {
+              ...params.inputProps,
+              "aria-label": "Search diseases, targets or drugs",
+            },
+            input: {
+              ...params.InputProps,
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search fontSize="small" />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+      )}
+    />
+  );
+}
@@ -0,0 +1,158 @@
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Link,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+
+import {
+  formatPhase,
+  openTargetsDrugUrl,
+  summarizeKnownDrugs,
+} from "~/lib/drugs";
+import type { KnownDrugsPage } from "~/lib/drugs.server";
+
+import useCursorPages from "./useCursorPages";
+
+type Props = {
+  /** URL of a page of known drugs; `null` for the first page. */
+  href: (cursor: string | null) => string;
+  targetSymbol: string;
+  diseaseName: string;
+};
+
+const styles = {
+  status: { py: 3 },
+  warnings: { mb: 1 },
+  table: { "& th": { fontWeight: "bold" } },
+  phase: { whiteSpace: "nowrap" as const },
+  loadMore: { mt: 1 },
+};
+
+/**
+ * Known drugs for one target in a disease, fetched from the known drugs
+ * resource route when the component mounts (i.e. when its tab is opened).
+ *
+ * Entries are merged per drug, showing its modality, mechanisms of action,
+ * the highest clinical phase it reached with that phase's trial status, and
+ * its indications. **Load more** follows the API cursor and appends the next
+ * page; drugs already shown are updated if a later entry reaches a higher
+ * phase.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {Function} props.href - Builds the URL of the page after a cursor.
+ * @param {string} props.targetSymbol - Symbol of the target, for messages.
+ * @param {string} props.diseaseName - Name of the disease, for messages.
+ *
+ * @returns {JSX.Element} A table of drugs, or a loading, empty or error state.
+ *
+ * @example
+ * <KnownDrugsTable
+ *   href={(cursor) =>
+ *     `/api/diseases/EFO_0001071/known-drugs?target=ENSG00000146648${cursor ? `&cursor=${cursor}` : ""}`
+ *   }
+ *   targetSymbol="EGFR"
+ *   diseaseName="lung carcinoma"
+ * />
+ */
+export default function KnownDrugsTable({
+  href,
+  targetSymbol,
+  diseaseName,
+}: Props) {
+  const { pages, cursor, loading, error, loadMore } =
+    useCursorPages<KnownDrugsPage>(href);
+  const drugs = summarizeKnownDrugs(pages.flatMap((page) => page.rows));
+  const warnings = [...new Set(pages.flatMap((page) => page.warnings))];
+
+  if (pages.length === 0) {
+    if (error) {
+      return <Alert severity="error">{error.message}</Alert>;
+    }
+    return (
+      <Stack direction="row" spacing={2} alignItems="center" sx={styles.status}>
+        <CircularProgress size={20} />
+        <Typography color="text.secondary">Loading known drugs…</Typography>
+      </Stack>
+    );
+  }
+
+  return (
+    <Box>
+      {warnings.length > 0 && (
+        <Alert severity="warning" sx={styles.warnings}>
+          {warnings.join("; ")}
+        </Alert>
+      )}
+      {drugs.length === 0 && !cursor ? (
+        <Typography color="text.secondary" sx={styles.status}>
+          No known drugs for {targetSymbol} in {diseaseName}.
+        </Typography>
+      ) : (
+        <Table
+          size="small"
+          sx={styles.table}
+          aria-label={`Known drugs for ${targetSymbol} in ${diseaseName}`}
+        >
+          <TableHead>
+            <TableRow>
+              <TableCell>Drug</TableCell>
+              <TableCell>Modality</TableCell>
+              <TableCell>Mechanism of Action</TableCell>
+              <TableCell>Max Phase</TableCell>
+              <TableCell>Status</TableCell>
+              <TableCell>Indications</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {drugs.map((drug) => (
+              <TableRow key={drug.drugId}>
+                <TableCell>
+                  <Link
+                    href={openTargetsDrugUrl(drug.drugId)}
+                    target="_blank"
+                    rel="noreferrer"
+                    underline="hover"
+                  >
+                    {drug.name}
+                  </Link>
+                </TableCell>
+                <TableCell>{drug.modality}</TableCell>
+                <TableCell>{drug.mechanismsOfAction.join("; ")}</TableCell>
+                <TableCell sx={styles.phase}>
+                  {formatPhase(drug.maxPhase)}
+                </TableCell>
+                <TableCell>{drug.status ?? "–"}</TableCell>
+                <TableCell>{drug.indications.join("; ")}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+      {error && (
+        <Alert severity="error" sx={styles.loadMore}>
+          {error.message}
+        </Alert>
+      )}
+      {cursor && (
+        <Button
+          onClick={loadMore}
+          disabled={loading}
+          sx={styles.loadMore}
+        >
+          {loading ? "Loading…" : "Load more"}
+        </Button>
+      )}
+    </Box>
+  );
+}
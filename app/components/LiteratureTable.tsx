@@ -0,0 +1,181 @@
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Link,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+
+import { formatLabel } from "~/lib/labels";
+import { europePmcUrl, pubmedUrl } from "~/lib/literature";
+import type { LiteraturePage } from "~/lib/literature.server";
+
+import PublicationHistogram from "./PublicationHistogram";
+import useCursorPages from "./useCursorPages";
+
+type Props = {
+  /** URL of a page of publications; `null` for the first page. */
+  href: (cursor: string | null) => string;
+  targetSymbol: string;
+  diseaseName: string;
+};
+
+const styles = {
+  status: { py: 3 },
+  warnings: { mb: 1 },
+  table: { "& th": { fontWeight: "bold" } },
+  date: { whiteSpace: "nowrap" as const },
+  loadMore: { mt: 1 },
+};
+
+/**
+ * Publications co-mentioning a target and a disease, fetched from the
+ * literature resource route when the component mounts (i.e. when its tab is
+ * opened).
+ *
+ * A histogram of publications per year over recent years comes first, then
+ * the publications: PubMed id (linked to PubMed, plus Europe PMC when a
+ * full text exists), publication date, and the terms Europe PMC text mining
+ * matched in each section. **Load more** follows the API cursor.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {Function} props.href - Builds the URL of the page after a cursor.
+ * @param {string} props.targetSymbol - Symbol of the target, for titles.
+ * @param {string} props.diseaseName - Name of the disease, for titles.
+ *
+ * @returns {JSX.Element} A histogram and table of publications, or a
+ * loading, empty or error state.
+ *
+ * @example
+ * <LiteratureTable
+ *   href={(cursor) =>
+ *     `/api/diseases/EFO_0001071/literature?target=ENSG00000146648${cursor ? `&cursor=${cursor}` : ""}`
+ *   }
+ *   targetSymbol="EGFR"
+ *   diseaseName="lung carcinoma"
+ * />
+ */
+export default function LiteratureTable({
+  href,
+  targetSymbol,
+  diseaseName,
+}: Props) {
+  const { pages, cursor, loading, error, loadMore } =
+    useCursorPages<LiteraturePage>(href);
+  const publications = pages.flatMap((page) => page.rows);
+  const warnings = [...new Set(pages.flatMap((page) => page.warnings))];
+  const [first] = pages;
+
+  if (!first) {
+    if (error) {
+      return <Alert severity="error">{error.message}</Alert>;
+    }
+    return (
+      <Stack direction="row" spacing={2} alignItems="center" sx={styles.status}>
+        <CircularProgress size={20} />
+        <Typography color="text.secondary">Loading publications…</Typography>
+      </Stack>
+    );
+  }
+
+  if (first.count === 0) {
+    return (
+      <Typography color="text.secondary" sx={styles.status}>
+        No publications mention both {targetSymbol} and {diseaseName}.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box>
+      {warnings.length > 0 && (
+        <Alert severity="warning" sx={styles.warnings}>
+          {warnings.join("; ")}
+        </Alert>
+      )}
+      {first.timeline && first.timeline.length > 0 && (
+        <PublicationHistogram
+          items={first.timeline}
+          title={`Publications per year: ${targetSymbol} and ${diseaseName}`}
+        />
+      )}
+      <Typography variant="body2" color="text.secondary" mt={2} mb={1}>
+        Showing {publications.length} of {first.count.toLocaleString("en-US")}{" "}
+        publications mentioning {targetSymbol} and {diseaseName}
+      </Typography>
+      <Table
+        size="small"
+        sx={styles.table}
+        aria-label={`Publications mentioning ${targetSymbol} and ${diseaseName}`}
+      >
+        <TableHead>
+          <TableRow>
+            <TableCell>PubMed ID</TableCell>
+            <TableCell>Published</TableCell>
+            <TableCell>Matched Terms</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {publications.map((publication) => (
+            <TableRow key={publication.pmid}>
+              <TableCell>
+                <Link
+                  href={pubmedUrl(publication.pmid)}
+                  target="_blank"
+                  rel="noreferrer"
+                  underline="hover"
+                >
+                  {publication.pmid}
+                </Link>
+                {publication.pmcid && (
+                  <>
+                    {" · "}
+                    <Link
+                      href={europePmcUrl(publication.pmcid)}
+                      target="_blank"
+                      rel="noreferrer"
+                      underline="hover"
+                    >
+                      Full text
+                    </Link>
+                  </>
+                )}
+              </TableCell>
+              <TableCell sx={styles.date}>{publication.date ?? "–"}</TableCell>
+              <TableCell>
+                {publication.matches.map(({ section, terms }) => (
+                  <Typography key={section} variant="body2">
+                    <strong>{formatLabel(section)}:</strong> {terms.join(", ")}
+                  </Typography>
+                ))}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {error && (
+        <Alert severity="error" sx={styles.loadMore}>
+          {error.message}
+        </Alert>
+      )}
+      {cursor && (
+        <Button
+          onClick={loadMore}
+          disabled={loading}
+          sx={styles.loadMore}
+        >
+          {loading ? "Loading…" : "Load more"}
+        </Button>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,162 @@
+import {
+  Link,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TableSortLabel,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useMemo, useState } from "react";
+import { Link as RouterLink } from "react-router";
+
+import { targetPath } from "~/lib/targets";
+
+import type { MergedTarget } from "./types";
+
+type Props = {
+  /** The compared diseases, in the order of each target's `scores`. */
+  diseases: { id: string; name: string }[];
+  targets: MergedTarget[];
+};
+
+/** A disease's score column (by index) or the delta column. */
+type SortColumn = number | "delta";
+
+const PAGE_SIZE = 25;
+
+const styles = {
+  paper: { borderRadius: 0 },
+  table: { "& th": { fontWeight: "bold" } },
+  missing: { color: "text.disabled" },
+};
+
+const scoreOf = (target: MergedTarget, column: SortColumn) =>
+  column === "delta" ? target.delta : (target.scores[column] ?? -1);
+
+/**
+ * Targets of several diseases merged into one table, with a score column per
+ * disease and a delta column (largest minus smallest score, a missing
+ * association counting as 0). Sorted and paged client-side; every column
+ * sorts, by delta first.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {Object[]} props.diseases - Ids and names of the compared diseases;
+ * target links open in the context of the first.
+ * @param {MergedTarget[]} props.targets - The merged targets to list.
+ *
+ * @returns {JSX.Element} A sortable, paginated table.
+ *
+ * @example
+ * <MergedTargetsTable
+ *   diseases={[
+ *     { id: "EFO_0003060", name: "non-small cell lung carcinoma" },
+ *     { id: "EFO_0000702", name: "small cell lung carcinoma" },
+ *   ]}
+ *   targets={targets}
+ * />
+ */
+export default function MergedTargetsTable({ diseases, targets }: Props) {
+  const [sortBy, setSortBy] = useState<SortColumn>("delta");
+  const [direction, setDirection] = useState<"asc" | "desc">("desc");
+  const [page, setPage] = useState(0);
+
+  const sorted = useMemo(() => {
+    const sign = direction === "desc" ? -1 : 1;
+    return [...targets].sort(
+      (a, b) => sign * (scoreOf(a, sortBy) - scoreOf(b, sortBy))
+    );
+  }, [targets, sortBy, direction]);
+
+  const sortCell = (column: SortColumn, label: string) => {
+    const active = sortBy === column;
+    return (
+      <TableCell
+        key={column}
+        align="right"
+        sortDirection={active ? direction : false}
+      >
+        <TableSortLabel
+          active={active}
+          direction={active ? direction : "desc"}
+          onClick={() => {
+            setSortBy(column);
+            setDirection(active && direction === "desc" ? "asc" : "desc");
+            setPage(0);
+          }}
+        >
+          {label}
+        </TableSortLabel>
+      </TableCell>
+    );
+  };
+
+  if (targets.length === 0) {
+    return (
+      <Typography color="text.secondary" textAlign="center" py={6}>
+        No matching targets
+      </Typography>
+    );
+  }
+
+  return (
+    <Paper variant="outlined" sx={styles.paper}>
+      <TableContainer>
+        <Table size="small" sx={styles.table} aria-label="Merged targets">
+          <TableHead>
+            <TableRow>
+              <TableCell>Symbol</TableCell>
+              <TableCell>Name</TableCell>
+              {diseases.map((disease, i) => sortCell(i, disease.name))}
+              <Tooltip title="Largest minus smallest score, a missing association counting as 0">
+                {sortCell("delta", "Δ score")}
+              </Tooltip>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {sorted
+              .slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE)
+              .map((target) => (
+                <TableRow key={target.id} hover>
+                  <TableCell>
+                    <Link
+                      component={RouterLink}
+                      to={targetPath(target.id, { efoId: diseases[0].id })}
+                    >
+                      {target.approvedSymbol}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{target.approvedName}</TableCell>
+                  {target.scores.map((score, i) => (
+                    <TableCell
+                      key={diseases[i].id}
+                      align="right"
+                      sx={score == null ? styles.missing : undefined}
+                    >
+                      {score == null ? "—" : score.toFixed(3)}
+                    </TableCell>
+                  ))}
+                  <TableCell align="right">{target.delta.toFixed(3)}</TableCell>
+                </TableRow>
+              ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <TablePagination
+        component="div"
+        count={sorted.length}
+        page={page}
+        rowsPerPage={PAGE_SIZE}
+        rowsPerPageOptions={[PAGE_SIZE]}
+        onPageChange={(_, next) => setPage(next)}
+      />
+    </Paper>
+  );
+}
@@ -0,0 +1,207 @@
+import { Box } from "@mui/material";
+import * as d3 from "d3";
+import { useEffect, useRef } from "react";
+
+import type { YearCount } from "./types";
+
+type Props = {
+  items: YearCount[];
+  title: string;
+  height?: number;
+  width?: number;
+};
+
+const styles = {
+  container: { display: "flex", justifyContent: "center", position: "relative" },
+  svg: { width: "60%", height: "auto", display: "block" },
+  tooltip: {
+    position: "absolute" as const,
+    pointerEvents: "none" as const,
+    opacity: 0,
+    padding: "6px 8px",
+    borderRadius: 6,
+    fontSize: 12,
+    lineHeight: 1.2,
+    background: "rgba(17, 24, 39, 0.92)",
+    color: "#fff",
+    boxShadow: "0 2px 8px rgba(0,0,0,0.25)",
+    transform: "translate(8px, -50%)",
+    transition: "opacity 120ms ease",
+    zIndex: 1,
+  },
+} as const;
+
+/**
+ * Renders a histogram of publications per year using D3.js, to show whether
+ * interest in a target–disease pair is rising.
+ *
+ * Features:
+ * - X-axis: publication years (every other year labelled past 12 years).
+ * - Y-axis: publication counts, starting at zero.
+ * - Bars with a hover/focus tooltip, styled like {@link BarChart}'s.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {YearCount[]} props.items - `{ year, count }` per year, in order.
+ * @param {string} props.title - Title displayed above the chart.
+ * @param {number} [props.height=280] - Height of the chart in pixels.
+ * @param {number} [props.width=640] - Width of the chart in pixels.
+ *
+ * @example
+ * ```tsx
+ * <PublicationHistogram
+ *   title="Publications per year: EGFR and lung carcinoma"
+ *   items={[
+ *     { year: 2023, count: 120 },
+ *     { year: 2024, count: 134 },
+ *   ]}
+ * />
+ * ```
+ *
+ * @returns {JSX.Element} A responsive histogram rendered in an SVG element.
+ */
+export default function PublicationHistogram({
+  items,
+  title,
+  height = 280,
+  width = 640,
+}: Props) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    let tooltip = d3
+      .select(containerRef.current)
+      .select<HTMLDivElement>(".d3-tooltip");
+
+    if (tooltip.empty()) {
+      tooltip = d3
+        .select(containerRef.current)
+        .append("div")
+        .attr("class", "d3-tooltip");
+      Object.entries(styles.tooltip).forEach(([k, v]) => {
+        (tooltip.node() as HTMLDivElement).style.setProperty(
+          k.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`),
+          String(v)
+        );
+      });
+    }
+
+    const margin = { top: 50, right: 20, bottom: 50, left: 60 };
+    const w = width - margin.left - margin.right;
+    const h = height - margin.top - margin.bottom;
+
+    const g = svg
+      .attr("viewBox", `0 0 ${width} ${height}`)
+      .attr("role", "img")
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const years = items.map((d) => String(d.year));
+    const x = d3.scaleBand<string>().domain(years).range([0, w]).padding(0.15);
+    const y = d3
+      .scaleLinear()
+      .domain([0, Math.max(d3.max(items, (d) => d.count) ?? 0, 1)])
+      .nice()
+      .range([h, 0]);
+
+    g.append("g")
+      .attr("transform", `translate(0,${h})`)
+      .call(
+        d3
+          .axisBottom(x)
+          .tickValues(
+            years.length > 12 ? years.filter((_, i) => i % 2 === 0) : years
+          )
+      )
+      .selectAll("text")
+      .attr("font-size", 8);
+
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(5, "d"))
+      .selectAll("text")
+      .attr("font-size", 10);
+
+    const describe = (d: YearCount) =>
+      `${d.year}: ${d.count} publication${d.count === 1 ? "" : "s"}`;
+
+    const bars = g
+      .selectAll<SVGRectElement, YearCount>("rect.bar")
+      .data(items)
+      .enter()
+      .append("rect")
+      .attr("class", "bar")
+      .attr("x", (d) => x(String(d.year))!)
+      .attr("y", (d) => y(d.count))
+      .attr("width", x.bandwidth())
+      .attr("height", (d) => h - y(d.count))
+      .attr("fill", "#1f77b4")
+      .attr("tabindex", 0);
+
+    bars.append("title").text(describe);
+
+    const show = function (this: SVGRectElement, _event: unknown, d: YearCount) {
+      d3.select(this).attr("fill", "#1669a8");
+      tooltip
+        .style("opacity", "1")
+        .html(`<strong>${d.year}</strong><br/>Publications: ${d.count}`);
+    };
+    const hide = function (this: SVGRectElement) {
+      d3.select(this).attr("fill", "#1f77b4");
+      tooltip.style("opacity", "0");
+    };
+
+    bars
+      .on("mouseenter", show)
+      .on("mousemove", function (event) {
+        const [mx] = d3.pointer(event, containerRef.current);
+        tooltip.style("left", `${mx}px`);
+      })
+      .on("mouseleave", hide)
+      .on("focus", show)
+      .on("blur", hide);
+
+    // Chart title
+    svg
+      .append("text")
+      .attr("y", 25)
+      .attr("text-anchor", "left")
+      .attr("fill", "#9f9f9fff")
+      .attr("font-size", 14)
+      .text(title);
+
+    // Axis labels
+    svg
+      .append("text")
+      .attr("x", width / 2)
+      .attr("y", height - 10)
+      .attr("text-anchor", "middle")
+      .attr("font-size", 10)
+      .text("Publication Year");
+
+    svg
+      .append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -height / 2)
+      .attr("y", 15)
+      .attr("text-anchor", "middle")
+      .attr("font-size", 10)
+      .text("Publications");
+
+    return () => {
+      tooltip.remove();
+    };
+  }, [items, title, height, width]);
+
+  return (
+    <Box ref={containerRef} sx={styles.container}>
+      <Box component="svg" ref={svgRef} sx={styles.svg} aria-label={title} />
+    </Box>
+  );
+}
@@ -1,13 +1,23 @@
 import { Box } from "@mui/material";
 import * as d3 from "d3";
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 
+import { seriesColor } from "~/lib/colors";
 import { formatLabel } from "~/lib/labels";
 
-import type { Datum } from "./types";
+import ChartLegend from "./ChartLegend";
+import type { ChartSeries, Datum } from "./types";
 
 export type RadarItem = { id: string; score: number };
-type Props = { items: RadarItem[]; title: string };
+type Props = {
+  /** Scores of a single target; ignored when `series` is given. */
+  items?: RadarItem[];
+  /** Several targets overlaid in distinct colours, with a legend. */
+  series?: ChartSeries[];
+  title: string;
+  /** Makes points and axis labels clickable; called with the item id. */
+  onSelect?: (id: string) => void;
+};
 
 const styles = {
   wrapper: { display: "flex", justifyContent: "center", position: "relative" as const },
@@ -44,13 +54,21 @@ const styles = {
  * - Polygon area filled with semi-transparent blue and stroked outline.
  * - Markers drawn at each data point for clarity.
  * - Title displayed above the chart.
+ * - Optional comparison: with `series`, one polygon per series in its own
+ *   colour, over the union of their axes (missing scores count as 0), and a
+ *   legend whose chips hide or show each polygon.
+ * - Optional drill-down: with `onSelect`, clicking a point or axis label
+ *   (or pressing Enter on it) reports the item id.
  *
  * @component
  *
  * @param {Object} props - Component props.
  * @param {RadarItem[]} props.items - Array of `{ id, score }` items representing
  * datatype identifiers and their scores (0.0 → 1.0).
+ * @param {ChartSeries[]} [props.series] - `{ id, label, items }` per target,
+ * drawn instead of `items`.
  * @param {string} props.title - Title displayed above the chart.
+ * @param {Function} [props.onSelect] - Called with the id of a clicked axis.
  *
  * @example
  * ```tsx
@@ -63,13 +81,33 @@ const styles = {
  *     { id: "somatic_mutation", score: 0.6 },
  *   ]}
  * />
+ *
+ * <RadarChart
+ *   title="Data Type Scores: EGFR and KRAS in lung carcinoma"
+ *   series={[
+ *     { id: "ENSG00000146648", label: "EGFR", items: egfrScores },
+ *     { id: "ENSG00000133703", label: "KRAS", items: krasScores },
+ *   ]}
+ * />
  * ```
  *
  * @returns {JSX.Element} A responsive radar chart rendered in an SVG element.
  */
-export default function RadarChart({ items, title }: Props) {
+export default function RadarChart({ items, series, title, onSelect }: Props) {
   const svgRef = useRef<SVGSVGElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
+  const [hiddenIds, setHiddenIds] = useState<string[]>([]);
+  // Read by the D3 handlers, so that a new callback does not redraw the chart
+  const onSelectRef = useRef(onSelect);
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  });
+  const selectable = onSelect != null;
+
+  const allSeries = useMemo(
+    () => series ?? [{ id: "score", label: "Score", items: items ?? [] }],
+    [items, series]
+  );
 
   useEffect(() => {
     if (!svgRef.current || !containerRef.current) return;
@@ -103,7 +141,15 @@ export default function RadarChart({ items, title }: Props) {
       .append("g")
       .attr("transform", `translate(${width / 2}, ${height / 2})`);
 
-    const data: Datum[] = items.map((d) => ({ label: formatLabel(d.id), value: d.score ?? 0 }));
+    const axes = [...new Set(allSeries.flatMap((s) => s.items.map((d) => d.id)))];
+    const seriesData: Datum[][] = allSeries.map((s) =>
+      axes.map((id) => ({
+        id,
+        label: formatLabel(id),
+        value: s.items.find((d) => d.id === id)?.score ?? 0,
+      }))
+    );
+    const data: Datum[] = axes.map((id) => ({ id, label: formatLabel(id), value: 0 }));
     const n = data.length;
     const angle = d3.scaleLinear().domain([0, n]).range([0, 2 * Math.PI]);
     const r = d3.scaleLinear().domain([0, 1]).range([0, radius]);
@@ -147,7 +193,7 @@ export default function RadarChart({ items, title }: Props) {
       .text((d) => fmt(d));
 
     // Axis labels (category names)
-      g
+    const axisLabels = g
       .selectAll<SVGTextElement, Datum>("text.axis-label")
       .data(data)
       .enter()
@@ -164,46 +210,51 @@ export default function RadarChart({ items, title }: Props) {
       .text((d) => d.label)
       .attr("tabindex", 0);
 
-    const radialLine: d3.LineRadial<number> = d3
-      .lineRadial<number>()
-      .radius((_v, i) => r(data[i].value))
-      .angle((_v, i) => angle(i))
-      .curve(d3.curveLinearClosed);
+    const radialLine = (values: number[]) =>
+      d3
+        .lineRadial<number>()
+        .radius((v) => r(v))
+        .angle((_v, i) => angle(i))
+        .curve(d3.curveLinearClosed)(values) ?? "";
 
-    const polygon = g
-      .append("path")
-      .datum<number[]>(data.map((d) => d.value))
-      .attr("d", (values: number[]) => radialLine(values) ?? "")
-      .attr("fill", "rgba(31, 119, 180, 0.12)")
-      .attr("stroke", "#1f77b4")
-      .attr("stroke-width", 1);
+    const fill = (color: string, opacity: number) => {
+      const c = d3.color(color)!;
+      c.opacity = opacity;
+      return c.formatRgb();
+    };
 
-    // points
-    const points = g
-      .selectAll<SVGCircleElement, Datum>("circle.point")
-      .data(data)
-      .enter()
-      .append("circle")
-      .attr("class", "point")
-      .attr("cx", (_d, i) => Math.cos(angle(i) - Math.PI / 2) * r(data[i].value))
-      .attr("cy", (_d, i) => Math.sin(angle(i) - Math.PI / 2) * r(data[i].value))
-      .attr("r", 3.5)
-      .attr("fill", "#ffffff")
-      .attr("stroke", "#1f77b4")
-      .attr("stroke-width", 1)
-      .attr("tabindex", 0);
+    const layers = allSeries.flatMap((s, si) => {
+      if (hiddenIds.includes(s.id)) return [];
+      const color = seriesColor(si);
+      const polygon = g
+        .append("path")
+        .datum<number[]>(seriesData[si].map((d) => d.value))
+        .attr("d", radialLine)
+        .attr("fill", fill(color, 0.12))
+        .attr("stroke", color)
+        .attr("stroke-width", 1);
 
-    points.append("title").text((d) => `${d.label}: ${fmt(d.value)}`);
+      // points
+      const points = g
+        .selectAll<SVGCircleElement, Datum>(`circle.point-${si}`)
+        .data(seriesData[si])
+        .enter()
+        .append("circle")
+        .attr("class", `point point-${si}`)
+        .attr("cx", (d, i) => Math.cos(angle(i) - Math.PI / 2) * r(d.value))
+        .attr("cy", (d, i) => Math.sin(angle(i) - Math.PI / 2) * r(d.value))
+        .attr("r", 3.5)
+        .attr("fill", "#ffffff")
+        .attr("stroke", color)
+        .attr("stroke-width", 1)
+        .attr("tabindex", 0);
 
-    
-    const highlightPoint = (circle: SVGCircleElement) => {
-      d3.select(circle).attr("r", 6).attr("stroke-width", 2);
-      polygon.attr("fill", "rgba(31, 119, 180, 0.18)");
-    };
-    const resetPoint = (circle: SVGCircleElement) => {
-      d3.select(circle).attr("r", 3.5).attr("stroke-width", 1);
-      polygon.attr("fill", "rgba(31, 119, 180, 0.12)");
-    };
+      points
+        .append("title")
+        .text((d) => `${series ? `${s.label} ` : ""}${d.label}: ${fmt(d.value)}`);
+
+      return [{ label: s.label, color, polygon, points }];
+    });
 
     // Convert a point's SVG coordinates to container-relative coordinates
     const toContainerCoords = (cx: number, cy: number) => {
@@ -237,11 +288,16 @@ export default function RadarChart({ items, title }: Props) {
       };
     };
 
-    const showTooltipAtPoint = (label: string, value: number, cx: number, cy: number) => {
+    // A single series reads "Known Drug / Score: …", a comparison "EGFR / Known Drug: …"
+    const showTooltipAtPoint = (name: string, d: Datum, cx: number, cy: number) => {
       const { x, y } = toContainerCoords(cx, cy);
       tooltip
         .style("opacity", "1")
-        .html(`<strong>${label}</strong><br/>Score: ${fmt(value)}`)
+        .html(
+          series
+            ? `<strong>${name}</strong><br/>${d.label}: ${fmt(d.value)}`
+            : `<strong>${d.label}</strong><br/>Score: ${fmt(d.value)}`
+        )
         .style("left", `${x}px`)
         .style("top", `${y}px`);
     };
@@ -249,29 +305,60 @@ export default function RadarChart({ items, title }: Props) {
     const hideTooltip = () => tooltip.style("opacity", "0");
 
     // interactivity: points (anchor tooltip to the point)
-    points
-      .on("mouseenter", function (_event, d) {
-        const circle = d3.select(this);
-        const cx = +circle.attr("cx");
-        const cy = +circle.attr("cy");
-        highlightPoint(this);
-        showTooltipAtPoint(d.label, d.value, cx, cy);
-      })
-      .on("mouseleave", function () {
-        resetPoint(this);
-        hideTooltip();
-      })
-      .on("focus", function (_event, d) {
-        const circle = d3.select(this);
-        const cx = +circle.attr("cx");
-        const cy = +circle.attr("cy");
-        highlightPoint(this);
-        showTooltipAtPoint(d.label, d.value, cx, cy);
-      })
-      .on("blur", function () {
-        resetPoint(this);
-        hideTooltip();
-      });
+    layers.forEach(({ label, color, polygon, points }) => {
+      const highlightPoint = (circle: SVGCircleElement) => {
+        d3.select(circle).attr("r", 6).attr("stroke-width", 2);
+        polygon.attr("fill", fill(color, 0.18));
+      };
+      const resetPoint = (circle: SVGCircleElement) => {
+        d3.select(circle).attr("r", 3.5).attr("stroke-width", 1);
+        polygon.attr("fill", fill(color, 0.12));
+      };
+
+      points
+        .on("mouseenter", function (_event, d) {
+          const circle = d3.select(this);
+          const cx = +circle.attr("cx");
+          const cy = +circle.attr("cy");
+          highlightPoint(this);
+          showTooltipAtPoint(label, d, cx, cy);
+        })
+        .on("mouseleave", function () {
+          resetPoint(this);
+          hideTooltip();
+        })
+        .on("focus", function (_event, d) {
+          const circle = d3.select(this);
+          const cx = +circle.attr("cx");
+          const cy = +circle.attr("cy");
+          highlightPoint(this);
+          showTooltipAtPoint(label, d, cx, cy);
+        })
+        .on("blur", function () {
+          resetPoint(this);
+          hideTooltip();
+        });
+    });
+
+    if (selectable) {
+      const select = (event: KeyboardEvent, d: Datum) => {
+        if (event.key === "Enter" || event.key === " ") {
+          event.preventDefault();
+          onSelectRef.current?.(d.id);
+        }
+      };
+      const makeSelectable = <E extends SVGElement>(
+        selection: d3.Selection<E, Datum, SVGGElement, unknown>
+      ) =>
+        selection
+          .attr("cursor", "pointer")
+          .attr("role", "button")
+          .attr("aria-label", (d) => `Show ${d.label} breakdown`)
+          .on("click", (_event, d) => onSelectRef.current?.(d.id))
+          .on("keydown", select);
+      layers.forEach(({ points }) => makeSelectable(points));
+      makeSelectable(axisLabels);
+    }
 
     // Title
     svg
@@ -281,11 +368,24 @@ export default function RadarChart({ items, title }: Props) {
       .attr("fill", "#9f9f9fff")
       .attr("font-size", 14)
       .text(title);
-  }, [items, title]);
+  }, [allSeries, series, hiddenIds, title, selectable]);
 
   return (
-    <Box ref={containerRef} sx={styles.wrapper}>
-      <Box component="svg" ref={svgRef} sx={styles.svg} aria-label={title} />
+    <Box>
+      <Box ref={containerRef} sx={styles.wrapper}>
+        <Box component="svg" ref={svgRef} sx={styles.svg} aria-label={title} />
+      </Box>
+      {series && (
+        <ChartLegend
+          series={series}
+          hiddenIds={hiddenIds}
+          onToggle={(id) =>
+            setHiddenIds((ids) =>
+              ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id]
+            )
+          }
+        />
+      )}
     </Box>
   );
 }
\ No newline at end of file
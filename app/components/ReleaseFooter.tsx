@@ -0,0 +1,52 @@
+import { Box, Link, Typography } from "@mui/material";
+
+import { type DataRelease, describeRelease } from "~/lib/release";
+
+type Props = {
+  /** Release that served the page; `null` when it could not be looked up. */
+  release: DataRelease | null;
+};
+
+const styles = {
+  root: {
+    px: "10%",
+    py: 2,
+    borderTop: 1,
+    borderColor: "divider",
+  },
+};
+
+/**
+ * Page footer citing the Open Targets data release and API version the
+ * numbers on the page come from.
+ *
+ * When the release could not be looked up (e.g. the API is down) the footer
+ * says so rather than leaving the data uncited.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {DataRelease | null} props.release - Release behind the page data.
+ *
+ * @returns {JSX.Element} A footer with the release and a link to the platform.
+ *
+ * @example
+ * <ReleaseFooter release={{ dataVersion: "25.06", apiVersion: "25.0.3" }} />
+ */
+export default function ReleaseFooter({ release }: Props) {
+  return (
+    <Box component="footer" sx={styles.root}>
+      <Typography variant="body2" color="text.secondary">
+        Data:{" "}
+        <Link
+          href="https://platform.opentargets.org"
+          target="_blank"
+          rel="noopener noreferrer"
+        >
+          {release ? describeRelease(release) : "Open Targets Platform"}
+        </Link>
+        {!release && " (release unknown: the API did not report its version)"}
+      </Typography>
+    </Box>
+  );
+}
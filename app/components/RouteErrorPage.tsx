@@ -0,0 +1,108 @@
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { isRouteErrorResponse, Link } from "react-router";
+
+import { DEFAULT_EFO_ID, diseasePath } from "~/lib/diseases";
+import type { RouteErrorData } from "~/lib/errors";
+
+type Props = {
+  /** Whatever the route's loader or render threw. */
+  error: unknown;
+  /** Title for a `not-found` error, e.g. "Disease not found". */
+  notFoundTitle: string;
+  /** Message when the error carries none of its own. */
+  fallbackMessage: string;
+};
+
+/**
+ * Error page rendered by the route ErrorBoundaries.
+ *
+ * Typed loader errors (see `~/lib/errors`) arrive as error responses
+ * carrying {@link RouteErrorData}; each kind gets its own title, GraphQL or
+ * validation details are listed, and an unavailable upstream offers a retry.
+ * Anything else falls back to a generic message (the error's own message in
+ * development).
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {unknown} props.error - The error passed to the ErrorBoundary.
+ * @param {string} props.notFoundTitle - Title shown for a 404.
+ * @param {string} props.fallbackMessage - Message for untyped errors.
+ *
+ * @returns {JSX.Element} An alert plus retry and home buttons.
+ *
+ * @example
+ * export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+ *   return (
+ *     <RouteErrorPage
+ *       error={error}
+ *       notFoundTitle="Disease not found"
+ *       fallbackMessage="An unexpected error occurred."
+ *     />
+ *   );
+ * }
+ */
+export default function RouteErrorPage({
+  error,
+  notFoundTitle,
+  fallbackMessage,
+}: Props) {
+  let title = "Something went wrong";
+  let message = fallbackMessage;
+  let details: string[] = [];
+  let retry = false;
+
+  if (isRouteErrorResponse(error)) {
+    const payload = error.data as RouteErrorData | undefined;
+    message = payload?.message ?? error.statusText ?? message;
+    details = payload?.errors ?? [];
+    switch (payload?.kind) {
+      case "not-found":
+        title = notFoundTitle;
+        break;
+      case "upstream-unavailable":
+        title = "Open Targets unavailable";
+        retry = true;
+        break;
+      case "graphql-validation":
+        title = "Invalid request";
+        break;
+      case "invalid-response":
+        title = "Unexpected response";
+        break;
+    }
+  } else if (import.meta.env.DEV && error instanceof Error) {
+    message = error.message;
+  }
+
+  return (
+    <Box px="10%" my={4}>
+      <Alert severity={retry ? "warning" : "error"}>
+        <AlertTitle>{title}</AlertTitle>
+        <Typography variant="body2">{message}</Typography>
+        {details.map((detail) => (
+          <Typography key={detail} variant="body2" fontFamily="monospace">
+            {detail}
+          </Typography>
+        ))}
+      </Alert>
+      <Stack direction="row" spacing={1} mt={2}>
+        {retry && (
+          <Button variant="contained" onClick={() => window.location.reload()}>
+            Try again
+          </Button>
+        )}
+        <Button component={Link} to={diseasePath(DEFAULT_EFO_ID)}>
+          Back to lung carcinoma
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,51 @@
+import { Box, Link, Stack } from "@mui/material";
+import { Link as RouterLink } from "react-router";
+
+import { DEFAULT_EFO_ID, diseasePath } from "~/lib/diseases";
+
+import GlobalSearch from "./GlobalSearch";
+
+const styles = {
+  root: {
+    px: "10%",
+    py: 1.5,
+    borderBottom: 1,
+    borderColor: "divider",
+  },
+  brand: { fontWeight: 700, fontSize: "1.1rem" },
+};
+
+/**
+ * Page header: the app name, linking to the lung carcinoma associations,
+ * and the {@link GlobalSearch} bar.
+ *
+ * @component
+ *
+ * @returns {JSX.Element} A header bar.
+ *
+ * @example
+ * <SiteHeader />
+ */
+export default function SiteHeader() {
+  return (
+    <Box component="header" sx={styles.root}>
+      <Stack
+        direction={{ xs: "column", md: "row" }}
+        justifyContent="space-between"
+        alignItems={{ xs: "stretch", md: "center" }}
+        spacing={1}
+      >
+        <Link
+          component={RouterLink}
+          to={diseasePath(DEFAULT_EFO_ID)}
+          underline="none"
+          color="text.primary"
+          sx={styles.brand}
+        >
+          Lung Carcinoma Insights
+        </Link>
+        <GlobalSearch />
+      </Stack>
+    </Box>
+  );
+}
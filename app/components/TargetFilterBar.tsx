@@ -0,0 +1,173 @@
+import { Search } from "@mui/icons-material";
+import {
+  Autocomplete,
+  Chip,
+  FormControl,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+} from "@mui/material";
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+
+import type { RouteErrorData } from "~/lib/errors";
+import { TARGET_FACET_CATEGORIES } from "~/lib/facets";
+
+import type { TargetFacet } from "./types";
+
+type Props = {
+  /** Applied name/symbol filter. */
+  query: string;
+  /** Applied facet filters. */
+  facets: TargetFacet[];
+  onQueryChange: (query: string) => void;
+  onFacetsChange: (facets: TargetFacet[]) => void;
+};
+
+type FacetsResponse = { facets: TargetFacet[] } | { error: RouteErrorData };
+
+const DEBOUNCE_MS = 300;
+
+const styles = {
+  root: { mb: 2 },
+  search: { flex: 2 },
+  category: { minWidth: 240 },
+  facet: { flex: 2 },
+  chips: { flexWrap: "wrap" as const, gap: 1 },
+};
+
+/**
+ * Filter controls shown above the association table.
+ *
+ * - A search box for target names/symbols. Typing is debounced before
+ *   `onQueryChange` fires, so the loader only re-runs once the user pauses.
+ * - A facet picker: choose a category (target class or a tractability
+ *   modality), then search its facets, loaded from `/api/facets`.
+ * - Chips for the selected facets, each removable.
+ *
+ * Both filters are applied server-side over the full association set.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {string} props.query - Applied text filter.
+ * @param {TargetFacet[]} props.facets - Applied facet filters.
+ * @param {Function} props.onQueryChange - Called with the debounced text.
+ * @param {Function} props.onFacetsChange - Called with the new facet list.
+ *
+ * @returns {JSX.Element} The search box, facet picker and facet chips.
+ */
+export default function TargetFilterBar({
+  query,
+  facets,
+  onQueryChange,
+  onFacetsChange,
+}: Props) {
+  const [text, setText] = useState(query);
+  const [category, setCategory] = useState<string>(TARGET_FACET_CATEGORIES[0]);
+  const [facetInput, setFacetInput] = useState("");
+  const fetcher = useFetcher<FacetsResponse>();
+
+  // Follow URL changes made elsewhere (back/forward, reset).
+  useEffect(() => {
+    setText(query);
+  }, [query]);
+
+  useEffect(() => {
+    const trimmed = text.trim();
+    if (trimmed === query) return;
+    const timer = setTimeout(() => onQueryChange(trimmed), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [text, query, onQueryChange]);
+
+  const { load } = fetcher;
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const params = new URLSearchParams({ category, q: facetInput });
+      void load(`/api/facets?${params.toString()}`);
+    }, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [category, facetInput, load]);
+
+  const error =
+    fetcher.data && "error" in fetcher.data ? fetcher.data.error : null;
+  const options = (
+    fetcher.data && "facets" in fetcher.data ? fetcher.data.facets : []
+  ).filter((option) => !facets.some((f) => f.id === option.id));
+
+  return (
+    <Stack spacing={1.5} sx={styles.root}>
+      <Stack direction={{ xs: "column", md: "row" }} spacing={2}>
+        <TextField
+          size="small"
+          sx={styles.search}
+          label="Search targets"
+          placeholder="Symbol or name, e.g. EGFR"
+          value={text}
+          onChange={(event) => setText(event.target.value)}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search fontSize="small" />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <FormControl size="small" sx={styles.category}>
+          <InputLabel id="facet-category-label">Facet</InputLabel>
+          <Select
+            labelId="facet-category-label"
+            label="Facet"
+            value={category}
+            onChange={(event) => setCategory(event.target.value)}
+          >
+            {TARGET_FACET_CATEGORIES.map((c) => (
+              <MenuItem key={c} value={c}>
+                {c}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Autocomplete
+          size="small"
+          sx={styles.facet}
+          options={options}
+          value={null}
+          inputValue={facetInput}
+          onInputChange={(_, value) => setFacetInput(value)}
+          onChange={(_, option) => {
+            if (option) onFacetsChange([...facets, option]);
+            setFacetInput("");
+          }}
+          getOptionLabel={(option) => option.label}
+          isOptionEqualToValue={(option, value) => option.id === value.id}
+          filterOptions={(x) => x}
+          loading={fetcher.state === "loading"}
+          noOptionsText={error ? error.message : "No matching facets"}
+          renderInput={(params) => (
+            <TextField {...params} label={`Filter by ${category}`} />
+          )}
+        />
+      </Stack>
+
+      {facets.length > 0 && (
+        <Stack direction="row" sx={styles.chips}>
+          {facets.map((facet) => (
+            <Chip
+              key={facet.id}
+              label={`${facet.category}: ${facet.label}`}
+              onDelete={() =>
+                onFacetsChange(facets.filter((f) => f.id !== facet.id))
+              }
+            />
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
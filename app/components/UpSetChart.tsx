@@ -0,0 +1,311 @@
+import { Box } from "@mui/material";
+import * as d3 from "d3";
+import { useEffect, useRef } from "react";
+
+import { seriesColor } from "~/lib/colors";
+import { listNames } from "~/lib/compare";
+import { intersectionKey } from "~/lib/overlap";
+
+import type { SetIntersection } from "./types";
+
+type Props = {
+  /** Set names and sizes, in the order `intersections` index them. */
+  sets: { label: string; size: number }[];
+  intersections: SetIntersection[];
+  title: string;
+  /** Key of the highlighted intersection (see `intersectionKey`). */
+  selectedKey?: string | null;
+  /** Makes columns clickable; called with the intersection's key. */
+  onSelect?: (key: string) => void;
+};
+
+const ROW_HEIGHT = 26;
+const BARS_HEIGHT = 140;
+const MEMBER = "#374151";
+const NON_MEMBER = "#e5e7eb";
+
+const styles = {
+  container: { display: "flex", justifyContent: "center", position: "relative" },
+  svg: { width: "70%", height: "auto", display: "block" },
+  tooltip: {
+    position: "absolute" as const,
+    pointerEvents: "none" as const,
+    opacity: 0,
+    padding: "6px 8px",
+    borderRadius: 6,
+    fontSize: 12,
+    lineHeight: 1.2,
+    background: "rgba(17, 24, 39, 0.92)",
+    color: "#fff",
+    boxShadow: "0 2px 8px rgba(0,0,0,0.25)",
+    transform: "translate(8px, -50%)",
+    transition: "opacity 120ms ease",
+    zIndex: 1,
+  },
+} as const;
+
+const countTargets = (count: number) =>
+  `${count} target${count === 1 ? "" : "s"}`;
+
+/** "lung carcinoma only", "NSCLC and SCLC only" */
+function describeSets(sets: number[], labels: string[]) {
+  return `${listNames(sets.map((i) => labels[i]))} only`;
+}
+
+/**
+ * Renders an UpSet plot of set intersections using D3.js: unlike a Venn
+ * diagram it stays readable for four sets and more.
+ *
+ * Features:
+ * - One column per exclusive intersection, largest first: a bar with the
+ *   number of elements on top, and below it a dot matrix marking which sets
+ *   the intersection belongs to.
+ * - One matrix row per set, labelled with the set's name and size.
+ * - Hover/focus tooltip naming the intersection, styled like
+ *   {@link BarChart}'s.
+ * - Optional click-through (also with Enter) and a highlighted column.
+ *
+ * @component
+ *
+ * @param {Object} props - Component props.
+ * @param {Object[]} props.sets - Labels and sizes of the sets.
+ * @param {SetIntersection[]} props.intersections - Exclusive intersections,
+ * in column order.
+ * @param {string} props.title - Title displayed above the chart.
+ * @param {string|null} [props.selectedKey] - Key of the highlighted column.
+ * @param {Function} [props.onSelect] - Called with a clicked column's key.
+ *
+ * @example
+ * ```tsx
+ * <UpSetChart
+ *   sets={[{ label: "NSCLC", size: 80 }, { label: "SCLC", size: 60 }]}
+ *   intersections={[{ sets: [0, 1], count: 45 }, { sets: [0], count: 35 }]}
+ *   title="Shared targets"
+ *   onSelect={(key) => setSelected(key)}
+ * />
+ * ```
+ *
+ * @returns {JSX.Element} An SVG element containing the UpSet plot.
+ */
+export default function UpSetChart({
+  sets,
+  intersections,
+  title,
+  selectedKey,
+  onSelect,
+}: Props) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  // Read by the D3 handlers, so that a new callback does not redraw the chart
+  const onSelectRef = useRef(onSelect);
+  useEffect(() => {
+    onSelectRef.current = onSelect;
+  });
+  const selectable = onSelect != null;
+
+  useEffect(() => {
+    if (!svgRef.current || !containerRef.current) return;
+
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+
+    let tooltip = d3
+      .select(containerRef.current)
+      .select<HTMLDivElement>(".d3-tooltip");
+
+    if (tooltip.empty()) {
+      tooltip = d3
+        .select(containerRef.current)
+        .append("div")
+        .attr("class", "d3-tooltip");
+      Object.entries(styles.tooltip).forEach(([k, v]) => {
+        (tooltip.node() as HTMLDivElement).style.setProperty(
+          k.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`),
+          String(v)
+        );
+      });
+    }
+
+    const labels = sets.map((s) => s.label);
+    const margin = { top: 60, right: 20, bottom: 20, left: 220 };
+    const width = 640;
+    const w = width - margin.left - margin.right;
+    const matrixTop = BARS_HEIGHT + 12;
+    const height =
+      margin.top + matrixTop + sets.length * ROW_HEIGHT + margin.bottom;
+
+    const g = svg
+      .attr("viewBox", `0 0 ${width} ${height}`)
+      .attr("role", "img")
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const x = d3
+      .scaleBand<string>()
+      .domain(intersections.map((d) => intersectionKey(d.sets)))
+      .range([0, w])
+      .padding(0.3);
+    const y = d3
+      .scaleLinear()
+      .domain([0, d3.max(intersections, (d) => d.count) ?? 1])
+      .nice()
+      .range([BARS_HEIGHT, 0]);
+    const rowY = (i: number) => matrixTop + i * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const cx = (d: SetIntersection) =>
+      x(intersectionKey(d.sets))! + x.bandwidth() / 2;
+    const barColor = (d: SetIntersection) =>
+      intersectionKey(d.sets) === selectedKey ? seriesColor(1) : seriesColor(0);
+
+    g.append("g")
+      .call(d3.axisLeft(y).ticks(4).tickFormat(d3.format("d")))
+      .selectAll("text")
+      .attr("font-size", 10);
+    g.append("text")
+      .attr("transform", `translate(-36,${BARS_HEIGHT / 2}) rotate(-90)`)
+      .attr("text-anchor", "middle")
+      .attr("font-size", 10)
+      .text("Targets");
+
+    // Stripes and labels of the set rows
+    g.selectAll("rect.stripe")
+      .data(sets.filter((_, i) => i % 2 === 0))
+      .enter()
+      .append("rect")
+      .attr("class", "stripe")
+      .attr("x", -margin.left + 10)
+      .attr("y", (_, i) => rowY(i * 2) - ROW_HEIGHT / 2)
+      .attr("width", w + margin.left - 10)
+      .attr("height", ROW_HEIGHT)
+      .attr("fill", "#f9fafb");
+    g.selectAll("text.set-label")
+      .data(sets)
+      .enter()
+      .append("text")
+      .attr("class", "set-label")
+      .attr("x", -12)
+      .attr("y", (_, i) => rowY(i))
+      .attr("text-anchor", "end")
+      .attr("dominant-baseline", "middle")
+      .attr("font-size", 11)
+      .text((s) => `${s.label} (${s.size})`);
+
+    const columns = g
+      .selectAll<SVGGElement, SetIntersection>("g.intersection")
+      .data(intersections)
+      .enter()
+      .append("g")
+      .attr("class", "intersection")
+      .attr("tabindex", 0);
+
+    const bars = columns
+      .append("rect")
+      .attr("class", "bar")
+      .attr("x", (d) => x(intersectionKey(d.sets))!)
+      .attr("y", (d) => y(d.count))
+      .attr("width", x.bandwidth())
+      .attr("height", (d) => BARS_HEIGHT - y(d.count))
+      .attr("fill", barColor)
+      .attr("rx", 2)
+      .attr("ry", 2);
+
+    columns
+      .append("text")
+      .attr("x", cx)
+      .attr("y", (d) => y(d.count) - 4)
+      .attr("text-anchor", "middle")
+      .attr("font-size", 10)
+      .text((d) => d.count);
+
+    // Dot matrix: a line through the member sets, then one dot per set
+    columns
+      .filter((d) => d.sets.length > 1)
+      .append("line")
+      .attr("x1", cx)
+      .attr("x2", cx)
+      .attr("y1", (d) => rowY(d.sets[0]))
+      .attr("y2", (d) => rowY(d.sets[d.sets.length - 1]))
+      .attr("stroke", MEMBER)
+      .attr("stroke-width", 2);
+    columns
+      .selectAll("circle")
+      .data((d) => sets.map((_, i) => ({ d, member: d.sets.includes(i), i })))
+      .enter()
+      .append("circle")
+      .attr("cx", ({ d }) => cx(d))
+      .attr("cy", ({ i }) => rowY(i))
+      .attr("r", 6)
+      .attr("fill", ({ member }) => (member ? MEMBER : NON_MEMBER));
+
+    const describe = (d: SetIntersection) =>
+      `<strong>${describeSets(d.sets, labels)}</strong><br/>Targets: ${d.count}`;
+
+    columns
+      .append("title")
+      .text((d) => `${describeSets(d.sets, labels)}: ${countTargets(d.count)}`);
+
+    columns
+      .on("mouseenter", function (_event, d) {
+        bars
+          .filter((b) => b === d)
+          .attr("fill", d3.color(barColor(d))!.darker(0.6).formatHex());
+        tooltip.style("opacity", "1").html(describe(d));
+      })
+      .on("mousemove", function (event) {
+        const [mx, my] = d3.pointer(event, containerRef.current);
+        tooltip.style("left", `${mx}px`).style("top", `${my}px`);
+      })
+      .on("mouseleave", function (_event, d) {
+        bars.filter((b) => b === d).attr("fill", barColor(d));
+        tooltip.style("opacity", "0");
+      })
+      .on("focus", function (_event, d) {
+        bars
+          .filter((b) => b === d)
+          .attr("fill", d3.color(barColor(d))!.darker(0.6).formatHex());
+        tooltip.style("opacity", "1").html(describe(d));
+      })
+      .on("blur", function (_event, d) {
+        bars.filter((b) => b === d).attr("fill", barColor(d));
+        tooltip.style("opacity", "0");
+      });
+
+    if (selectable) {
+      columns
+        .attr("cursor", "pointer")
+        .attr("role", "button")
+        .attr(
+          "aria-label",
+          (d) => `Show ${countTargets(d.count)} in ${describeSets(d.sets, labels)}`
+        )
+        .attr("aria-pressed", (d) => intersectionKey(d.sets) === selectedKey)
+        .on("click", (_event, d) =>
+          onSelectRef.current?.(intersectionKey(d.sets))
+        )
+        .on("keydown", (event: KeyboardEvent, d) => {
+          if (event.key === "Enter" || event.key === " ") {
+            event.preventDefault();
+            onSelectRef.current?.(intersectionKey(d.sets));
+          }
+        });
+    }
+
+    // Chart title
+    svg
+      .append("text")
+      .attr("y", 25)
+      .attr("text-anchor", "left")
+      .attr("fill", "#9f9f9fff")
+      .attr("font-size", 14)
+      .text(title);
+
+    return () => {
+      tooltip.remove();
+    };
+  }, [sets, intersections, title, selectedKey, selectable]);
+
+  return (
+    <Box ref={containerRef} sx={styles.container}>
+      <Box component="svg" ref={svgRef} sx={styles.svg} aria-label={title} />
+    </Box>
+  );
+}
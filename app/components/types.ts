@@ -1,12 +1,95 @@
 
 export type DataTypeScore = { id: string; score: number; };
 
+/** Datasource scores keyed by the id of the datatype they belong to. */
+export type DatasourceScoresByDatatype = Record<string, DataTypeScore[]>;
+
+/** Identifiers of a target in external resources, used for link-outs. */
+export type TargetXrefs = { uniprot?: string; hgnc?: string };
+
 export type AssocRow = {
   id: string;
   approvedSymbol: string;
   approvedName: string;
+  xrefs: TargetXrefs;
   score: number;
   datatypeScores: DataTypeScore[];
+  datasourceScores: DatasourceScoresByDatatype;
+};
+
+export type Datum = { id: string; label: string; value: number };
+
+export type DatasourceSetting = {
+  id: string;
+  weight: number;
+  propagate: boolean;
+  required: boolean;
+};
+
+export type TargetFacet = { id: string; label: string; category: string };
+
+/** One `Disease.knownDrugs` entry: a drug in a trial or approved for an indication. */
+export type KnownDrug = {
+  drugId: string;
+  name: string;
+  /** e.g. "Small molecule", "Antibody". */
+  modality: string;
+  mechanismOfAction: string;
+  /** Clinical trial phase, 0.5 (early phase I) to 4 (approved). */
+  phase: number;
+  status: string | null;
+  /** The indication, the disease itself or one of its descendants. */
+  indication: string;
+};
+
+/** A publication co-mentioning a target and a disease (`literatureOcurrences`). */
+export type Publication = {
+  pmid: string;
+  pmcid: string | null;
+  /** e.g. `2021-03-15`. */
+  date: string | null;
+  /** Distinct terms matched in each section (title, abstract, …). */
+  matches: { section: string; terms: string[] }[];
+};
+
+export type YearCount = { year: number; count: number };
+
+/** A `Query.search` hit: a disease, target or drug. */
+export type SearchHit = {
+  id: string;
+  entity: string;
+  name: string;
+  description: string | null;
+};
+
+/** Search hits of one entity, with the total number of matches for it. */
+export type SearchGroup = { entity: string; total: number; hits: SearchHit[] };
+
+/** A disease in the EFO hierarchy, with how many direct children it has. */
+export type OntologyTerm = { id: string; name: string; childCount: number };
+
+/** One target's scores in a multi-series chart. */
+export type ChartSeries = {
+  id: string;
+  label: string;
+  items: { id: string; score: number }[];
+};
+
+/**
+ * A target associated with any of several compared diseases: its score in
+ * each, in disease order (`null` where it is not associated), and `delta`,
+ * the largest minus the smallest of those scores (missing counting as 0).
+ */
+export type MergedTarget = {
+  id: string;
+  approvedSymbol: string;
+  approvedName: string;
+  scores: (number | null)[];
+  delta: number;
 };
 
-export type Datum = { label: string; value: number };
+/**
+ * Targets associated with exactly the diseases at the `sets` indices and
+ * none of the others: one column of an UpSet plot.
+ */
+export type SetIntersection = { sets: number[]; count: number };
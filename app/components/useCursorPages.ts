@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { useFetcher } from "react-router";
+
+import type { RouteErrorData } from "~/lib/errors";
+
+type CursorPage = { cursor: string | null };
+
+/**
+ * Pages of a cursor-paged resource route, loaded through a fetcher: the
+ * first page when `href(null)` changes (which starts over), the next one on
+ * `loadMore`. A failed page leaves the loaded ones in place and sets `error`.
+ *
+ * @param href - Builds the URL of the page after a cursor.
+ */
+export default function useCursorPages<Page extends CursorPage>(
+  href: (cursor: string | null) => string
+) {
+  const fetcher = useFetcher<Page | { error: RouteErrorData }>();
+  const [pages, setPages] = useState<Page[]>([]);
+
+  const firstPage = href(null);
+  const { load } = fetcher;
+  useEffect(() => {
+    setPages([]);
+    void load(firstPage);
+  }, [firstPage, load]);
+
+  // The pages are plain JSON already, so serializing them changes nothing
+  const data = fetcher.data as Page | { error: RouteErrorData } | undefined;
+  const { state } = fetcher;
+  useEffect(() => {
+    if (state !== "idle" || !data || "error" in data) return;
+    setPages((loaded) => (loaded.includes(data) ? loaded : [...loaded, data]));
+  }, [data, state]);
+
+  const cursor = pages.at(-1)?.cursor ?? null;
+  const loadMore = () => {
+    if (cursor) void load(href(cursor));
+  };
+
+  return {
+    pages,
+    cursor,
+    loading: state !== "idle",
+    error: data && "error" in data ? data.error : null,
+    loadMore,
+  };
+}
@@ -1,4 +1,4 @@
-import { GraphQLClient, type RequestOptions } from 'graphql-request';
+import type { GraphQLClient, RequestOptions } from 'graphql-request';
 import gql from 'graphql-tag';
 export type Maybe<T> = T | null;
 export type InputMaybe<T> = Maybe<T>;
@@ -1972,32 +1972,468 @@ export type GeneticVariation = {
   name?: Maybe<Scalars['String']['output']>;
 };
 
-export type LungCarcinomaAssociatedTargetsQueryVariables = Exact<{ [key: string]: never; }>;
+export type DiseaseAssociatedTargetsQueryVariables = Exact<{
+  efoId: Scalars['String']['input'];
+  page: Pagination;
+  orderByScore?: InputMaybe<Scalars['String']['input']>;
+  datasources?: InputMaybe<Array<DatasourceSettingsInput> | DatasourceSettingsInput>;
+  enableIndirect?: InputMaybe<Scalars['Boolean']['input']>;
+  BFilter?: InputMaybe<Scalars['String']['input']>;
+  facetFilters?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+}>;
+
+
+export type DiseaseAssociatedTargetsQuery = { __typename?: 'Query', disease?: { __typename?: 'Disease', id: string, name: string, associatedTargets: { __typename?: 'AssociatedTargets', count: any, datasources: Array<{ __typename?: 'DatasourceSettings', id: string, weight: number, propagate: boolean, required: boolean }>, rows: Array<{ __typename?: 'AssociatedTarget', score: number, target: { __typename?: 'Target', id: string, approvedSymbol: string, approvedName: string, proteinIds: Array<{ __typename?: 'IdAndSource', id: string, source: string }>, dbXrefs: Array<{ __typename?: 'IdAndSource', id: string, source: string }> }, datatypeScores: Array<{ __typename?: 'ScoredComponent', id: string, score: number }>, datasourceScores: Array<{ __typename?: 'ScoredComponent', id: string, score: number }> }> } } | null, associationDatasources: Array<{ __typename?: 'EvidenceSource', datasource: string, datatype: string }> };
+
+export type DiseaseTargetRankingQueryVariables = Exact<{
+  efoId: Scalars['String']['input'];
+  size: Scalars['Int']['input'];
+  orderByScore?: InputMaybe<Scalars['String']['input']>;
+  enableIndirect?: InputMaybe<Scalars['Boolean']['input']>;
+  BFilter?: InputMaybe<Scalars['String']['input']>;
+  facetFilters?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+}>;
+
+
+export type DiseaseTargetRankingQuery = { __typename?: 'Query', disease?: { __typename?: 'Disease', id: string, associatedTargets: { __typename?: 'AssociatedTargets', datasources: Array<{ __typename?: 'DatasourceSettings', id: string, weight: number, propagate: boolean, required: boolean }>, rows: Array<{ __typename?: 'AssociatedTarget', target: { __typename?: 'Target', id: string } }> } } | null };
+
+export type DiseaseDirectTargetsQueryVariables = Exact<{
+  efoId: Scalars['String']['input'];
+  targetIds: Array<Scalars['String']['input']> | Scalars['String']['input'];
+  size: Scalars['Int']['input'];
+  datasources?: InputMaybe<Array<DatasourceSettingsInput> | DatasourceSettingsInput>;
+}>;
+
+
+export type DiseaseDirectTargetsQuery = { __typename?: 'Query', disease?: { __typename?: 'Disease', id: string, associatedTargets: { __typename?: 'AssociatedTargets', rows: Array<{ __typename?: 'AssociatedTarget', target: { __typename?: 'Target', id: string } }> } } | null };
+
+export type TargetFacetsQueryVariables = Exact<{
+  queryString?: InputMaybe<Scalars['String']['input']>;
+  category?: InputMaybe<Scalars['String']['input']>;
+}>;
 
 
-export type LungCarcinomaAssociatedTargetsQuery = { __typename?: 'Query', disease?: { __typename?: 'Disease', associatedTargets: { __typename?: 'AssociatedTargets', rows: Array<{ __typename?: 'AssociatedTarget', score: number, target: { __typename?: 'Target', id: string, approvedSymbol: string, approvedName: string }, datatypeScores: Array<{ __typename?: 'ScoredComponent', id: string, score: number }> }> } } | null };
+export type TargetFacetsQuery = { __typename?: 'Query', facets: { __typename?: 'SearchFacetsResults', hits: Array<{ __typename?: 'SearchFacetsResult', id: string, label: string, category: string }> } };
+
+export type ApiMetaQueryVariables = Exact<{ [key: string]: never; }>;
+
+
+export type ApiMetaQuery = { __typename?: 'Query', meta: { __typename?: 'Meta', name: string, apiVersion: { __typename?: 'APIVersion', x: string, y: string, z: string }, dataVersion: { __typename?: 'DataVersion', year: string, month: string, iteration: string } } };
+
+export type TargetDetailQueryVariables = Exact<{
+  ensemblId: Scalars['String']['input'];
+  efoId: Scalars['String']['input'];
+  enableIndirect?: InputMaybe<Scalars['Boolean']['input']>;
+}>;
+
+
+export type TargetDetailQuery = { __typename?: 'Query', target?: { __typename?: 'Target', id: string, approvedSymbol: string, approvedName: string, biotype: string, functionDescriptions: Array<string>, genomicLocation: { __typename?: 'GenomicLocation', chromosome: string, start: any, end: any, strand: number }, synonyms: Array<{ __typename?: 'LabelAndSource', label: string, source: string }>, targetClass: Array<{ __typename?: 'TargetClass', id: any, label: string, level: string }>, subcellularLocations: Array<{ __typename?: 'LocationAndSource', location: string, source: string, termSL?: string | null }>, proteinIds: Array<{ __typename?: 'IdAndSource', id: string, source: string }>, dbXrefs: Array<{ __typename?: 'IdAndSource', id: string, source: string }> } | null, disease?: { __typename?: 'Disease', id: string, name: string, associatedTargets: { __typename?: 'AssociatedTargets', rows: Array<{ __typename?: 'AssociatedTarget', score: number, target: { __typename?: 'Target', id: string, approvedSymbol: string, approvedName: string, proteinIds: Array<{ __typename?: 'IdAndSource', id: string, source: string }>, dbXrefs: Array<{ __typename?: 'IdAndSource', id: string, source: string }> }, datatypeScores: Array<{ __typename?: 'ScoredComponent', id: string, score: number }>, datasourceScores: Array<{ __typename?: 'ScoredComponent', id: string, score: number }> }> } } | null, associationDatasources: Array<{ __typename?: 'EvidenceSource', datasource: string, datatype: string }> };
+
+export type DiseaseKnownDrugsQueryVariables = Exact<{
+  efoId: Scalars['String']['input'];
+  freeTextQuery?: InputMaybe<Scalars['String']['input']>;
+  cursor?: InputMaybe<Scalars['String']['input']>;
+  size?: InputMaybe<Scalars['Int']['input']>;
+}>;
+
+
+export type DiseaseKnownDrugsQuery = { __typename?: 'Query', disease?: { __typename?: 'Disease', id: string, knownDrugs?: { __typename?: 'KnownDrugs', count: any, cursor?: string | null, rows: Array<{ __typename?: 'KnownDrug', drugId: string, prefName: string, drugType: string, mechanismOfAction: string, phase: number, status?: string | null, label: string, targetId: string }> } | null } | null };
+
+export type TargetDiseaseLiteratureQueryVariables = Exact<{
+  ensemblId: Scalars['String']['input'];
+  efoId: Scalars['String']['input'];
+  cursor?: InputMaybe<Scalars['String']['input']>;
+}>;
+
 
+export type TargetDiseaseLiteratureQuery = { __typename?: 'Query', target?: { __typename?: 'Target', id: string, literatureOcurrences: { __typename?: 'Publications', count: any, earliestPubYear: number, cursor?: string | null, rows: Array<{ __typename?: 'Publication', pmid: string, pmcid?: string | null, publicationDate?: string | null, sentences?: Array<{ __typename?: 'Sentence', section: string, matches: Array<{ __typename?: 'Match', mappedId: string, matchedLabel: string }> }> | null }> } } | null };
 
-export const LungCarcinomaAssociatedTargetsDocument = gql`
-    query lungCarcinomaAssociatedTargets {
-  disease(efoId: "EFO_0001071") {
-    associatedTargets(page: {index: 0, size: 25}) {
+export type TargetDiseaseLiteratureCountQueryVariables = Exact<{
+  ensemblId: Scalars['String']['input'];
+  efoId: Scalars['String']['input'];
+  startYear: Scalars['Int']['input'];
+  endYear: Scalars['Int']['input'];
+}>;
+
+
+export type TargetDiseaseLiteratureCountQuery = { __typename?: 'Query', target?: { __typename?: 'Target', id: string, literatureOcurrences: { __typename?: 'Publications', filteredCount: any } } | null };
+
+export type SearchQueryVariables = Exact<{
+  queryString: Scalars['String']['input'];
+  entityNames?: InputMaybe<Array<Scalars['String']['input']> | Scalars['String']['input']>;
+  page?: InputMaybe<Pagination>;
+}>;
+
+
+export type SearchQuery = { __typename?: 'Query', search: { __typename?: 'SearchResults', total: any, hits: Array<{ __typename?: 'SearchResult', id: string, entity: string, name: string, description?: string | null }>, aggregations?: { __typename?: 'SearchResultAggs', entities: Array<{ __typename?: 'SearchResultAggEntity', name: string, total: any }> } | null } };
+
+export type DiseaseOntologyQueryVariables = Exact<{
+  efoId: Scalars['String']['input'];
+}>;
+
+
+export type DiseaseOntologyQuery = { __typename?: 'Query', disease?: { __typename?: 'Disease', id: string, name: string, isTherapeuticArea: boolean, therapeuticAreas: Array<{ __typename?: 'Disease', id: string, name: string }>, parents: Array<{ __typename?: 'Disease', id: string, name: string }>, children: Array<{ __typename?: 'Disease', id: string, name: string, children: Array<{ __typename?: 'Disease', id: string }> }> } | null };
+
+export type CompareTargetsQueryVariables = Exact<{
+  efoId: Scalars['String']['input'];
+  ensemblIds: Array<Scalars['String']['input']> | Scalars['String']['input'];
+  enableIndirect?: InputMaybe<Scalars['Boolean']['input']>;
+  page: Pagination;
+}>;
+
+
+export type CompareTargetsQuery = { __typename?: 'Query', disease?: { __typename?: 'Disease', id: string, name: string, associatedTargets: { __typename?: 'AssociatedTargets', rows: Array<{ __typename?: 'AssociatedTarget', score: number, target: { __typename?: 'Target', id: string, approvedSymbol: string, approvedName: string, proteinIds: Array<{ __typename?: 'IdAndSource', id: string, source: string }>, dbXrefs: Array<{ __typename?: 'IdAndSource', id: string, source: string }> }, datatypeScores: Array<{ __typename?: 'ScoredComponent', id: string, score: number }>, datasourceScores: Array<{ __typename?: 'ScoredComponent', id: string, score: number }> }> } } | null, associationDatasources: Array<{ __typename?: 'EvidenceSource', datasource: string, datatype: string }> };
+
+
+export const DiseaseAssociatedTargetsDocument = gql`
+    query diseaseAssociatedTargets($efoId: String!, $page: Pagination!, $orderByScore: String, $datasources: [DatasourceSettingsInput!], $enableIndirect: Boolean, $BFilter: String, $facetFilters: [String!]) {
+  disease(efoId: $efoId) {
+    id
+    name
+    associatedTargets(
+      page: $page
+      orderByScore: $orderByScore
+      datasources: $datasources
+      enableIndirect: $enableIndirect
+      BFilter: $BFilter
+      facetFilters: $facetFilters
+    ) {
+      count
+      datasources {
+        id
+        weight
+        propagate
+        required
+      }
       rows {
         target {
           id
           approvedSymbol
           approvedName
+          proteinIds {
+            id
+            source
+          }
+          dbXrefs {
+            id
+            source
+          }
         }
         score
         datatypeScores {
           id
           score
         }
+        datasourceScores {
+          id
+          score
+        }
+      }
+    }
+  }
+  associationDatasources {
+    datasource
+    datatype
+  }
+}
+    `;
+export const DiseaseTargetRankingDocument = gql`
+    query diseaseTargetRanking($efoId: String!, $size: Int!, $orderByScore: String, $enableIndirect: Boolean, $BFilter: String, $facetFilters: [String!]) {
+  disease(efoId: $efoId) {
+    id
+    associatedTargets(
+      page: {index: 0, size: $size}
+      orderByScore: $orderByScore
+      enableIndirect: $enableIndirect
+      BFilter: $BFilter
+      facetFilters: $facetFilters
+    ) {
+      datasources {
+        id
+        weight
+        propagate
+        required
+      }
+      rows {
+        target {
+          id
+        }
       }
     }
   }
 }
     `;
+export const DiseaseDirectTargetsDocument = gql`
+    query diseaseDirectTargets($efoId: String!, $targetIds: [String!]!, $size: Int!, $datasources: [DatasourceSettingsInput!]) {
+  disease(efoId: $efoId) {
+    id
+    associatedTargets(
+      Bs: $targetIds
+      enableIndirect: false
+      datasources: $datasources
+      page: {index: 0, size: $size}
+    ) {
+      rows {
+        target {
+          id
+        }
+      }
+    }
+  }
+}
+    `;
+export const TargetFacetsDocument = gql`
+    query targetFacets($queryString: String, $category: String) {
+  facets(
+    queryString: $queryString
+    category: $category
+    entityNames: ["target"]
+    page: {index: 0, size: 20}
+  ) {
+    hits {
+      id
+      label
+      category
+    }
+  }
+}
+    `;
+export const ApiMetaDocument = gql`
+    query apiMeta {
+  meta {
+    name
+    apiVersion {
+      x
+      y
+      z
+    }
+    dataVersion {
+      year
+      month
+      iteration
+    }
+  }
+}
+    `;
+export const TargetDetailDocument = gql`
+    query targetDetail($ensemblId: String!, $efoId: String!, $enableIndirect: Boolean) {
+  target(ensemblId: $ensemblId) {
+    id
+    approvedSymbol
+    approvedName
+    biotype
+    functionDescriptions
+    genomicLocation {
+      chromosome
+      start
+      end
+      strand
+    }
+    synonyms {
+      label
+      source
+    }
+    targetClass {
+      id
+      label
+      level
+    }
+    subcellularLocations {
+      location
+      source
+      termSL
+    }
+    proteinIds {
+      id
+      source
+    }
+    dbXrefs {
+      id
+      source
+    }
+  }
+  disease(efoId: $efoId) {
+    id
+    name
+    associatedTargets(
+      Bs: [$ensemblId]
+      enableIndirect: $enableIndirect
+      page: {index: 0, size: 1}
+    ) {
+      rows {
+        target {
+          id
+          approvedSymbol
+          approvedName
+          proteinIds {
+            id
+            source
+          }
+          dbXrefs {
+            id
+            source
+          }
+        }
+        score
+        datatypeScores {
+          id
+          score
+        }
+        datasourceScores {
+          id
+          score
+        }
+      }
+    }
+  }
+  associationDatasources {
+    datasource
+    datatype
+  }
+}
+    `;
+export const DiseaseKnownDrugsDocument = gql`
+    query diseaseKnownDrugs($efoId: String!, $freeTextQuery: String, $cursor: String, $size: Int) {
+  disease(efoId: $efoId) {
+    id
+    knownDrugs(freeTextQuery: $freeTextQuery, cursor: $cursor, size: $size) {
+      count
+      cursor
+      rows {
+        drugId
+        prefName
+        drugType
+        mechanismOfAction
+        phase
+        status
+        label
+        targetId
+      }
+    }
+  }
+}
+    `;
+export const TargetDiseaseLiteratureDocument = gql`
+    query targetDiseaseLiterature($ensemblId: String!, $efoId: String!, $cursor: String) {
+  target(ensemblId: $ensemblId) {
+    id
+    literatureOcurrences(additionalIds: [$efoId], cursor: $cursor) {
+      count
+      earliestPubYear
+      cursor
+      rows {
+        pmid
+        pmcid
+        publicationDate
+        sentences {
+          section
+          matches {
+            mappedId
+            matchedLabel
+          }
+        }
+      }
+    }
+  }
+}
+    `;
+export const TargetDiseaseLiteratureCountDocument = gql`
+    query targetDiseaseLiteratureCount($ensemblId: String!, $efoId: String!, $startYear: Int!, $endYear: Int!) {
+  target(ensemblId: $ensemblId) {
+    id
+    literatureOcurrences(
+      additionalIds: [$efoId]
+      startYear: $startYear
+      startMonth: 1
+      endYear: $endYear
+      endMonth: 12
+    ) {
+      filteredCount
+    }
+  }
+}
+    `;
+export const SearchDocument = gql`
+    query search($queryString: String!, $entityNames: [String!], $page: Pagination) {
+  search(queryString: $queryString, entityNames: $entityNames, page: $page) {
+    total
+    hits {
+      id
+      entity
+      name
+      description
+    }
+    aggregations {
+      entities {
+        name
+        total
+      }
+    }
+  }
+}
+    `;
+export const DiseaseOntologyDocument = gql`
+    query diseaseOntology($efoId: String!) {
+  disease(efoId: $efoId) {
+    id
+    name
+    isTherapeuticArea
+    therapeuticAreas {
+      id
+      name
+    }
+    parents {
+      id
+      name
+    }
+    children {
+      id
+      name
+      children {
+        id
+      }
+    }
+  }
+}
+    `;
+export const CompareTargetsDocument = gql`
+    query compareTargets($efoId: String!, $ensemblIds: [String!]!, $enableIndirect: Boolean, $page: Pagination!) {
+  disease(efoId: $efoId) {
+    id
+    name
+    associatedTargets(Bs: $ensemblIds, enableIndirect: $enableIndirect, page: $page) {
+      rows {
+        target {
+          id
+          approvedSymbol
+          approvedName
+          proteinIds {
+            id
+            source
+          }
+          dbXrefs {
+            id
+            source
+          }
+        }
+        score
+        datatypeScores {
+          id
+          score
+        }
+        datasourceScores {
+          id
+          score
+        }
+      }
+    }
+  }
+  associationDatasources {
+    datasource
+    datatype
+  }
+}
+    `;
 
 export type SdkFunctionWrapper = <T>(action: (requestHeaders?:Record<string, string>) => Promise<T>, operationName: string, operationType?: string, variables?: any) => Promise<T>;
 
@@ -2006,8 +2442,41 @@ const defaultWrapper: SdkFunctionWrapper = (action, _operationName, _operationTy
 
 export function getSdk(client: GraphQLClient, withWrapper: SdkFunctionWrapper = defaultWrapper) {
   return {
-    lungCarcinomaAssociatedTargets(variables?: LungCarcinomaAssociatedTargetsQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<LungCarcinomaAssociatedTargetsQuery> {
-      return withWrapper((wrappedRequestHeaders) => client.request<LungCarcinomaAssociatedTargetsQuery>({ document: LungCarcinomaAssociatedTargetsDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'lungCarcinomaAssociatedTargets', 'query', variables);
+    diseaseAssociatedTargets(variables: DiseaseAssociatedTargetsQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<DiseaseAssociatedTargetsQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<DiseaseAssociatedTargetsQuery>({ document: DiseaseAssociatedTargetsDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'diseaseAssociatedTargets', 'query', variables);
+    },
+    diseaseTargetRanking(variables: DiseaseTargetRankingQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<DiseaseTargetRankingQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<DiseaseTargetRankingQuery>({ document: DiseaseTargetRankingDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'diseaseTargetRanking', 'query', variables);
+    },
+    diseaseDirectTargets(variables: DiseaseDirectTargetsQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<DiseaseDirectTargetsQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<DiseaseDirectTargetsQuery>({ document: DiseaseDirectTargetsDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'diseaseDirectTargets', 'query', variables);
+    },
+    targetFacets(variables?: TargetFacetsQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<TargetFacetsQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<TargetFacetsQuery>({ document: TargetFacetsDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'targetFacets', 'query', variables);
+    },
+    apiMeta(variables?: ApiMetaQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<ApiMetaQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<ApiMetaQuery>({ document: ApiMetaDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'apiMeta', 'query', variables);
+    },
+    targetDetail(variables: TargetDetailQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<TargetDetailQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<TargetDetailQuery>({ document: TargetDetailDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'targetDetail', 'query', variables);
+    },
+    diseaseKnownDrugs(variables: DiseaseKnownDrugsQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<DiseaseKnownDrugsQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<DiseaseKnownDrugsQuery>({ document: DiseaseKnownDrugsDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'diseaseKnownDrugs', 'query', variables);
+    },
+    targetDiseaseLiterature(variables: TargetDiseaseLiteratureQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<TargetDiseaseLiteratureQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<TargetDiseaseLiteratureQuery>({ document: TargetDiseaseLiteratureDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'targetDiseaseLiterature', 'query', variables);
+    },
+    targetDiseaseLiteratureCount(variables: TargetDiseaseLiteratureCountQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<TargetDiseaseLiteratureCountQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<TargetDiseaseLiteratureCountQuery>({ document: TargetDiseaseLiteratureCountDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'targetDiseaseLiteratureCount', 'query', variables);
+    },
+    search(variables: SearchQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<SearchQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<SearchQuery>({ document: SearchDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'search', 'query', variables);
+    },
+    diseaseOntology(variables: DiseaseOntologyQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<DiseaseOntologyQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<DiseaseOntologyQuery>({ document: DiseaseOntologyDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'diseaseOntology', 'query', variables);
+    },
+    compareTargets(variables: CompareTargetsQueryVariables, requestHeaders?: GraphQLClientRequestHeaders, signal?: RequestInit['signal']): Promise<CompareTargetsQuery> {
+      return withWrapper((wrappedRequestHeaders) => client.request<CompareTargetsQuery>({ document: CompareTargetsDocument, variables, requestHeaders: { ...requestHeaders, ...wrappedRequestHeaders }, signal }), 'compareTargets', 'query', variables);
     }
   };
 }
@@ -0,0 +1,274 @@
+import type {
+  AssocRow,
+  DatasourceSetting,
+  TargetFacet,
+} from "~/components/types";
+import type { DiseaseAssociatedTargetsQuery } from "~/graphql/generated";
+
+import {
+  groupByDatatype,
+  RANK_WINDOW,
+  rankMovement,
+  toDatasourceSettings,
+} from "./datasources";
+import { allowPartialData, DiseaseNotFoundError } from "./errors";
+import { getReleaseSdk } from "./graphql";
+import {
+  type AssociationParams,
+  hasCustomWeights,
+  parseAssociationParams,
+  type SortDirection,
+  toOrderByScore,
+} from "./params";
+import type { DataRelease } from "./release";
+import { toTargetXrefs } from "./targets";
+import { validateAssociationRows } from "./validation";
+
+/** Processed associations, as rendered by the disease page. */
+export type AssociationData = {
+  disease: { id: string; name: string };
+  rows: AssocRow[];
+  pagination: { count: number; pageIndex: number; pageSize: number };
+  sort: { sortBy: string; direction: SortDirection };
+  datasources: {
+    defaults: DatasourceSetting[];
+    weights: Record<string, number>;
+    required: string[];
+  };
+  /** Only set when custom datasource weights are applied. */
+  rankMovement?: Record<string, number | null>;
+  indirect: boolean;
+  /** Targets on this page with no direct evidence (indirect mode only). */
+  indirectOnlyIds?: string[];
+  filters: { query: string; facets: TargetFacet[] };
+  /** GraphQL errors that came back alongside (partial) data. */
+  warnings: string[];
+  /** Rows left out because they were missing required fields. */
+  droppedRows: number;
+  release: DataRelease;
+};
+
+export type AssociationSources =
+  DiseaseAssociatedTargetsQuery["associationDatasources"];
+export type AssociationRow = NonNullable<
+  DiseaseAssociatedTargetsQuery["disease"]
+>["associatedTargets"]["rows"][number];
+
+/** Maps a row that passed {@link validateAssociationRows} to a table row. */
+export function toAssocRow(r: AssociationRow, sources: AssociationSources): AssocRow {
+  return {
+    id: r.target.id,
+    approvedSymbol: r.target.approvedSymbol,
+    approvedName: r.target.approvedName ?? "",
+    xrefs: toTargetXrefs(r.target.proteinIds, r.target.dbXrefs),
+    score: r.score,
+    datatypeScores: r.datatypeScores.map(({ id, score }) => ({ id, score })),
+    datasourceScores: groupByDatatype(
+      r.datasourceScores.map(({ id, score }) => ({ id, score })),
+      sources
+    ),
+  };
+}
+
+/**
+ * Loads one page of associations for `efoId`, driven by the association
+ * search params of `request` (see `params.ts`) unless `associationParams`
+ * are given, and maps it to table rows. Shared by the disease page, the JSON
+ * API and the exports, so all of them serve the same data.
+ */
+export async function loadAssociations(
+  efoId: string,
+  request: Request,
+  associationParams: AssociationParams = parseAssociationParams(
+    new URL(request.url).searchParams
+  )
+): Promise<AssociationData> {
+  const { pageIndex, pageSize, indirect } = associationParams;
+  const orderByScore = toOrderByScore(associationParams);
+  const filters = {
+    BFilter: associationParams.query || undefined,
+    facetFilters: associationParams.facets.length
+      ? associationParams.facets.map((f) => f.id)
+      : undefined,
+  };
+  const { sdk, release } = await getReleaseSdk(request);
+
+  // Custom weights need the default settings to merge into, and the default
+  // ranking to compare against.
+  const ranking = hasCustomWeights(associationParams)
+    ? await allowPartialData(
+        sdk.diseaseTargetRanking({
+          efoId,
+          size: RANK_WINDOW,
+          orderByScore,
+          enableIndirect: indirect,
+          ...filters,
+        })
+      )
+    : null;
+  const defaultRanking = ranking?.data;
+  const defaultSettings =
+    defaultRanking?.disease?.associatedTargets.datasources;
+  const defaultTargetIds = (
+    defaultRanking?.disease?.associatedTargets.rows ?? []
+  ).map((r) => r.target.id);
+
+  const datasources = defaultSettings
+    ? toDatasourceSettings(defaultSettings, associationParams)
+    : undefined;
+  const { data: result, warnings } = await allowPartialData(
+    sdk.diseaseAssociatedTargets({
+      efoId,
+      page: { index: pageIndex, size: pageSize },
+      orderByScore,
+      datasources,
+      enableIndirect: indirect,
+      ...filters,
+    })
+  );
+
+  if (!result.disease) throw new DiseaseNotFoundError(efoId);
+
+  const associatedTargets = result.disease.associatedTargets;
+  const validated = validateAssociationRows(associatedTargets?.rows ?? [], {
+    operationName: "diseaseAssociatedTargets",
+  });
+  const rows = validated.rows.map((r) =>
+    toAssocRow(r, result.associationDatasources ?? [])
+  );
+
+  // A target that drops out when only direct evidence counts is associated
+  // through descendant terms alone.
+  const targetIds = rows.map((r) => r.id);
+  const direct =
+    indirect && targetIds.length > 0
+      ? await allowPartialData(
+          sdk.diseaseDirectTargets({
+            efoId,
+            targetIds,
+            size: targetIds.length,
+            datasources,
+          })
+        )
+      : null;
+  const directIds = new Set(
+    (direct?.data.disease?.associatedTargets.rows ?? []).map(
+      (r) => r?.target?.id
+    )
+  );
+
+  return {
+    disease: { id: result.disease.id, name: result.disease.name },
+    rows,
+    pagination: {
+      count: Number(associatedTargets?.count ?? rows.length),
+      pageIndex,
+      pageSize,
+    },
+    sort: {
+      sortBy: associationParams.sortBy,
+      direction: associationParams.sortDirection,
+    },
+    datasources: {
+      defaults: (defaultSettings ?? associatedTargets?.datasources ?? []).map(
+        ({ id, weight, propagate, required }) => ({
+          id,
+          weight,
+          propagate,
+          required,
+        })
+      ),
+      weights: associationParams.weights,
+      required: associationParams.required,
+    },
+    rankMovement: defaultRanking
+      ? Object.fromEntries(
+          rows.map((row, i) => [
+            row.id,
+            rankMovement(
+              defaultTargetIds,
+              row.id,
+              pageIndex * pageSize + i + 1
+            ),
+          ])
+        )
+      : undefined,
+    indirect,
+    indirectOnlyIds: direct
+      ? targetIds.filter((id) => !directIds.has(id))
+      : undefined,
+    filters: {
+      query: associationParams.query,
+      facets: associationParams.facets,
+    },
+    warnings: [
+      ...(ranking?.warnings ?? []),
+      ...warnings,
+      ...(direct?.warnings ?? []),
+    ],
+    droppedRows: validated.dropped.length,
+    release,
+  };
+}
+
+/** Keeps only the scores of `datatypes` in each row; all of them when empty. */
+export function pickDatatypes(rows: AssocRow[], datatypes: string[]) {
+  if (datatypes.length === 0) return rows;
+  return rows.map((row) => ({
+    ...row,
+    datatypeScores: row.datatypeScores.filter((d) =>
+      datatypes.includes(d.id)
+    ),
+    datasourceScores: Object.fromEntries(
+      Object.entries(row.datasourceScores).filter(([datatype]) =>
+        datatypes.includes(datatype)
+      )
+    ),
+  }));
+}
+
+/** Page size used to walk the full result set in {@link loadAllAssociations}. */
+const FULL_SCAN_PAGE_SIZE = 500;
+
+/**
+ * Loads every association matching the request's filters, sort and weights
+ * (ignoring its `page`/`size`), up to `limit` rows. The returned
+ * `pagination.count` is the full count, so callers can tell when rows were
+ * cut off.
+ */
+export async function loadAllAssociations(
+  efoId: string,
+  request: Request,
+  limit: number
+): Promise<AssociationData> {
+  const params = parseAssociationParams(new URL(request.url).searchParams);
+  const load = (pageIndex: number) =>
+    loadAssociations(efoId, request, {
+      ...params,
+      pageIndex,
+      pageSize: FULL_SCAN_PAGE_SIZE,
+    });
+
+  const first = await load(0);
+  const total = Math.min(first.pagination.count, limit);
+  const pages = [first];
+  for (let i = 1; i * FULL_SCAN_PAGE_SIZE < total; i++) {
+    pages.push(await load(i));
+  }
+
+  return {
+    ...first,
+    rows: pages.flatMap((page) => page.rows).slice(0, limit),
+    pagination: { ...first.pagination, pageIndex: 0, pageSize: total },
+    rankMovement:
+      first.rankMovement &&
+      Object.fromEntries(
+        pages.flatMap((page) => Object.entries(page.rankMovement ?? {}))
+      ),
+    indirectOnlyIds:
+      first.indirectOnlyIds &&
+      pages.flatMap((page) => page.indirectOnlyIds ?? []),
+    warnings: [...new Set(pages.flatMap((page) => page.warnings))],
+    droppedRows: pages.reduce((sum, page) => sum + page.droppedRows, 0),
+  };
+}
@@ -0,0 +1,139 @@
+import type { SdkFunctionWrapper } from "~/graphql/generated";
+
+type Entry = { value: unknown; storedAt: number };
+
+export type CacheOptions = {
+  /** Maximum number of responses kept; least recently used entries are evicted first. */
+  maxEntries: number;
+  /** How long a response is served without contacting the upstream. */
+  ttlMs: number;
+  /** How long past `ttlMs` a response may be served while it is refreshed in the background. */
+  staleMs: number;
+};
+
+/**
+ * In-memory LRU cache of GraphQL responses with TTL and stale-while-revalidate.
+ *
+ * Entries are never dropped on expiry, only on eviction, so the last good
+ * response for a key is still available when the upstream fails.
+ */
+export class ResponseCache {
+  private entries = new Map<string, Entry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(readonly options: CacheOptions) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * Wraps `load` with the cache:
+   * - fresh entry → returned as is
+   * - stale entry (within `staleMs`) → returned, refreshed in the background
+   * - expired or missing entry → `load` is awaited; if it fails, the last good
+   *   response is returned when there is one
+   *
+   * With `bypass`, the cached value is ignored but still replaced on success.
+   */
+  async fetch<T>(
+    key: string,
+    load: () => Promise<T>,
+    { bypass = false }: { bypass?: boolean } = {}
+  ): Promise<T> {
+    const entry = this.entries.get(key);
+
+    if (entry && !bypass) {
+      const age = Date.now() - entry.storedAt;
+      if (age < this.options.ttlMs) {
+        this.touch(key, entry);
+        return entry.value as T;
+      }
+      if (age < this.options.ttlMs + this.options.staleMs) {
+        this.touch(key, entry);
+        this.refresh(key, load).catch(() => {
+          // keep serving the stale entry; the next request retries
+        });
+        return entry.value as T;
+      }
+    }
+
+    try {
+      return await this.refresh(key, load);
+    } catch (error) {
+      if (entry) return entry.value as T;
+      throw error;
+    }
+  }
+
+  clear() {
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+
+  /** Loads and stores `key`, sharing a single upstream call between concurrent callers. */
+  private refresh<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const promise = load()
+      .then((value) => {
+        this.set(key, value);
+        return value;
+      })
+      .finally(() => this.inFlight.delete(key));
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private set(key: string, value: unknown) {
+    if (this.options.maxEntries <= 0) return;
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now() });
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /** Moves `key` to the most recently used position. */
+  private touch(key: string, entry: Entry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+}
+
+/** JSON.stringify with object keys sorted, so equal variables give equal keys. */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((k) => record[k] !== undefined)
+      .sort()
+      .map((k) => `${JSON.stringify(k)}:${stableStringify(record[k])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * An {@link SdkFunctionWrapper} that serves queries from `cache`, keyed on
+ * operation name + variables (prefixed with `namespace`, when given).
+ * Mutations are passed straight through.
+ */
+export function cacheWrapper(
+  cache: ResponseCache,
+  { bypass = false, namespace }: { bypass?: boolean; namespace?: string } = {}
+): SdkFunctionWrapper {
+  return (action, operationName, operationType, variables) => {
+    if (operationType !== "query") return action();
+    const prefix = namespace ? `${namespace}|` : "";
+    const key = `${prefix}${operationName}:${stableStringify(variables ?? {})}`;
+    return cache.fetch(key, () => action(), { bypass });
+  };
+}
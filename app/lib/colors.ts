@@ -0,0 +1,9 @@
+import * as d3 from "d3";
+
+/**
+ * Colour of the `index`-th series of a multi-series chart. The first is the
+ * blue single-series charts use.
+ */
+export function seriesColor(index: number) {
+  return d3.schemeCategory10[index % d3.schemeCategory10.length];
+}
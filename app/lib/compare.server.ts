@@ -0,0 +1,235 @@
+import type {
+  AssocRow,
+  MergedTarget,
+  SetIntersection,
+} from "~/components/types";
+
+import { toAssocRow } from "./associations.server";
+import {
+  MAX_COMPARE_DISEASES,
+  MAX_COMPARE_TARGETS,
+  MIN_COMPARE_DISEASES,
+} from "./compare";
+import { DEFAULT_EFO_ID } from "./diseases";
+import { allowPartialData, DiseaseNotFoundError } from "./errors";
+import { getReleaseSdk } from "./graphql";
+import { mergeDiseaseTargets, setIntersections } from "./overlap";
+import { parseAssociationParams } from "./params";
+import type { DataRelease } from "./release";
+import {
+  DISEASE_ID,
+  ENSEMBL_GENE_ID,
+  validateAssociationRows,
+} from "./validation";
+
+/** How many of each disease's top targets the disease comparison merges. */
+export const DISEASE_COMPARE_SIZE = 100;
+
+/** Several targets' associations with one disease, side by side. */
+export type TargetComparisonData = {
+  disease: { id: string; name: string };
+  /** In the order of the `targets` search param. */
+  targets: AssocRow[];
+  /** Requested targets with no association with the disease. */
+  missingIds: string[];
+  indirect: boolean;
+  /** Association table search params to return to (the `from` param). */
+  from: string | null;
+  warnings: string[];
+  release: DataRelease;
+};
+
+/**
+ * The Ensembl gene ids in a `targets` search param, in order, without
+ * duplicates or malformed ids and capped at {@link MAX_COMPARE_TARGETS}.
+ */
+export function parseCompareTargets(value: string | null) {
+  const ids = (value ?? "").split(",").filter((id) => ENSEMBL_GENE_ID.test(id));
+  return [...new Set(ids)].slice(0, MAX_COMPARE_TARGETS);
+}
+
+/**
+ * Loads the comparison page: the associations of the `targets` search param
+ * with the `disease` one (lung carcinoma by default), scored with the same
+ * direct/indirect setting as the table they were picked in.
+ */
+export async function loadTargetComparison(
+  request: Request
+): Promise<TargetComparisonData> {
+  const searchParams = new URL(request.url).searchParams;
+  const efoId = searchParams.get("disease") || DEFAULT_EFO_ID;
+  const from = searchParams.get("from");
+  const { indirect } = parseAssociationParams(new URLSearchParams(from ?? ""));
+  const ensemblIds = parseCompareTargets(searchParams.get("targets"));
+
+  const { sdk, release } = await getReleaseSdk(request);
+  const { data: result, warnings } = await allowPartialData(
+    sdk.compareTargets({
+      efoId,
+      // Sorted so that any order of the same targets shares a cache entry
+      ensemblIds: [...ensemblIds].sort(),
+      enableIndirect: indirect,
+      page: { index: 0, size: MAX_COMPARE_TARGETS },
+    })
+  );
+  if (!result.disease) throw new DiseaseNotFoundError(efoId);
+
+  const validated = validateAssociationRows(
+    result.disease.associatedTargets.rows.filter(
+      (row) => row?.target && ensemblIds.includes(row.target.id)
+    ),
+    { operationName: "compareTargets" }
+  );
+  const rows = new Map(
+    validated.rows.map((row) => [
+      row.target.id,
+      toAssocRow(row, result.associationDatasources ?? []),
+    ])
+  );
+
+  return {
+    disease: { id: result.disease.id, name: result.disease.name },
+    targets: ensemblIds.flatMap((id) => {
+      const row = rows.get(id);
+      return row ? [row] : [];
+    }),
+    missingIds: ensemblIds.filter((id) => !rows.has(id)),
+    indirect,
+    from,
+    warnings,
+    release,
+  };
+}
+
+/** The targets of several diseases, merged for a set-overlap comparison. */
+export type DiseaseComparisonData = {
+  /**
+   * In the order of the `diseases` search param, with their total number of
+   * associated targets; empty when fewer than two valid ids were given.
+   */
+  diseases: { id: string; name: string; count: number }[];
+  targets: MergedTarget[];
+  intersections: SetIntersection[];
+  /** How many top targets of each disease make up `targets`. */
+  size: number;
+  indirect: boolean;
+  warnings: string[];
+  release: DataRelease;
+};
+
+/**
+ * The disease ids in a `diseases` search param, in order, without duplicates
+ * or malformed ids and capped at {@link MAX_COMPARE_DISEASES}.
+ */
+export function parseCompareDiseases(value: string | null) {
+  const ids = (value ?? "").split(",").filter((id) => DISEASE_ID.test(id));
+  return [...new Set(ids)].slice(0, MAX_COMPARE_DISEASES);
+}
+
+/**
+ * Loads the disease comparison page: the top associated targets of each
+ * disease in the `diseases` search param, fetched in parallel. Each disease
+ * then scores the other diseases' top targets too (one `compareTargets`
+ * request each), before they are merged into one row per target and counted
+ * by the combination of diseases they are associated with. `evidence=direct`
+ * restricts every disease to direct evidence, as in the association table.
+ */
+export async function loadDiseaseComparison(
+  request: Request
+): Promise<DiseaseComparisonData> {
+  const searchParams = new URL(request.url).searchParams;
+  const { indirect } = parseAssociationParams(searchParams);
+  const efoIds = parseCompareDiseases(searchParams.get("diseases"));
+
+  const { sdk, release } = await getReleaseSdk(request);
+  const empty = {
+    diseases: [],
+    targets: [],
+    intersections: [],
+    size: DISEASE_COMPARE_SIZE,
+    indirect,
+    warnings: [],
+    release,
+  };
+  if (efoIds.length < MIN_COMPARE_DISEASES) return empty;
+
+  const results = await Promise.all(
+    efoIds.map(async (efoId) => {
+      const { data: result, warnings } = await allowPartialData(
+        sdk.diseaseAssociatedTargets({
+          efoId,
+          page: { index: 0, size: DISEASE_COMPARE_SIZE },
+          enableIndirect: indirect,
+        })
+      );
+      if (!result.disease) throw new DiseaseNotFoundError(efoId);
+
+      const { associatedTargets } = result.disease;
+      const validated = validateAssociationRows(associatedTargets.rows, {
+        operationName: "diseaseAssociatedTargets",
+      });
+      return {
+        disease: {
+          id: result.disease.id,
+          name: result.disease.name,
+          count: Number(associatedTargets.count),
+        },
+        rows: validated.rows.map((row) =>
+          toAssocRow(row, result.associationDatasources ?? [])
+        ),
+        warnings,
+      };
+    })
+  );
+
+  // A target in one disease's top list may rank lower in another: score the
+  // union of the top lists in every disease, so only targets without any
+  // association with a disease are missing from it
+  const ids = [
+    ...new Set(results.flatMap((r) => r.rows.map((row) => row.id))),
+  ].sort();
+  const scored = await Promise.all(
+    results.map(async ({ disease, rows }) => {
+      const ranked = new Set(rows.map((row) => row.id));
+      const ensemblIds = ids.filter((id) => !ranked.has(id));
+      if (ensemblIds.length === 0) return { rows, warnings: [] };
+
+      const { data: result, warnings } = await allowPartialData(
+        sdk.compareTargets({
+          efoId: disease.id,
+          ensemblIds,
+          enableIndirect: indirect,
+          page: { index: 0, size: ensemblIds.length },
+        })
+      );
+      if (!result.disease) throw new DiseaseNotFoundError(disease.id);
+
+      const validated = validateAssociationRows(
+        result.disease.associatedTargets.rows.filter(
+          (row) => row?.target && ensemblIds.includes(row.target.id)
+        ),
+        { operationName: "compareTargets" }
+      );
+      return {
+        rows: [
+          ...rows,
+          ...validated.rows.map((row) =>
+            toAssocRow(row, result.associationDatasources ?? [])
+          ),
+        ],
+        warnings,
+      };
+    })
+  );
+
+  const targets = mergeDiseaseTargets(scored.map((r) => r.rows));
+  return {
+    ...empty,
+    diseases: results.map((r) => r.disease),
+    targets,
+    intersections: setIntersections(targets),
+    warnings: [
+      ...new Set([...results, ...scored].flatMap((r) => r.warnings)),
+    ],
+  };
+}
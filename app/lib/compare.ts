@@ -0,0 +1,36 @@
+/** "EGFR", "EGFR and KRAS", "EGFR, KRAS and ALK" */
+export function listNames(names: string[]) {
+  if (names.length < 2) return names.join("");
+  return `${names.slice(0, -1).join(", ")} and ${names.at(-1)}`;
+}
+
+/** Most targets the comparison view overlays in one chart. */
+export const MAX_COMPARE_TARGETS = 6;
+
+/**
+ * In-app comparison of `ensemblIds` in the disease `efoId`. Like
+ * `targetPath`, `from` carries the association table's search params for
+ * the link back and the direct/indirect setting.
+ */
+export function comparePath(
+  ensemblIds: string[],
+  { efoId, from }: { efoId: string; from?: URLSearchParams }
+) {
+  const params = new URLSearchParams({
+    targets: ensemblIds.join(","),
+    disease: efoId,
+  });
+  const state = from?.toString();
+  if (state) params.set("from", state);
+  return `/compare?${params.toString()}`;
+}
+
+/** Fewest and most diseases the cross-disease comparison takes. */
+export const MIN_COMPARE_DISEASES = 2;
+export const MAX_COMPARE_DISEASES = 4;
+
+/** In-app comparison of the targets associated with each of `efoIds`. */
+export function diseaseComparePath(efoIds: string[]) {
+  const params = new URLSearchParams({ diseases: efoIds.join(",") });
+  return `/compare/diseases?${params.toString()}`;
+}
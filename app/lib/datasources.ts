@@ -0,0 +1,63 @@
+import type {
+  DatasourceScoresByDatatype,
+  DatasourceSetting,
+  DataTypeScore,
+} from "~/components/types";
+
+import type { AssociationParams } from "./params";
+
+/**
+ * How many targets of the default ranking are fetched to work out how far a
+ * target moved under custom weights. Targets ranked below this show as new.
+ */
+export const RANK_WINDOW = 500;
+
+/**
+ * Merges the weight and `required` overrides from the URL into the default
+ * datasource settings, giving the full `datasources` argument for
+ * `associatedTargets`.
+ */
+export function toDatasourceSettings(
+  defaults: DatasourceSetting[],
+  { weights, required }: Pick<AssociationParams, "weights" | "required">
+): DatasourceSetting[] {
+  return defaults.map((d) => ({
+    id: d.id,
+    weight: weights[d.id] ?? d.weight,
+    propagate: d.propagate,
+    required: d.required || required.includes(d.id),
+  }));
+}
+
+/**
+ * Positive when a target moved up compared with the default ranking, negative
+ * when it moved down, `null` when it is outside the default top
+ * {@link RANK_WINDOW}.
+ */
+export function rankMovement(
+  defaultRanking: string[],
+  targetId: string,
+  rank: number
+) {
+  const defaultIndex = defaultRanking.indexOf(targetId);
+  return defaultIndex === -1 ? null : defaultIndex + 1 - rank;
+}
+
+/**
+ * Groups datasource scores under their parent datatype, using the
+ * `associationDatasources` (datasource → datatype) list from the API.
+ * Datasources missing from that list are dropped.
+ */
+export function groupByDatatype(
+  scores: DataTypeScore[],
+  sources: { datasource: string; datatype: string }[]
+): DatasourceScoresByDatatype {
+  const datatypeOf = new Map(sources.map((s) => [s.datasource, s.datatype]));
+  const groups: DatasourceScoresByDatatype = {};
+  for (const score of scores) {
+    const datatype = datatypeOf.get(score.id);
+    if (!datatype) continue;
+    (groups[datatype] ??= []).push(score);
+  }
+  return groups;
+}
@@ -0,0 +1,14 @@
+/** Open Targets evidence datatypes, in the order the platform displays them. */
+export const DATATYPE_IDS = [
+  "genetic_association",
+  "somatic_mutation",
+  "known_drug",
+  "affected_pathway",
+  "rna_expression",
+  "literature",
+  "animal_model",
+] as const;
+
+export function isDatatypeId(id: string) {
+  return (DATATYPE_IDS as readonly string[]).includes(id);
+}
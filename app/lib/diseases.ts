@@ -0,0 +1,6 @@
+/** EFO id of lung carcinoma, the disease the app opens on. */
+export const DEFAULT_EFO_ID = "EFO_0001071";
+
+export function diseasePath(efoId: string) {
+  return `/disease/${encodeURIComponent(efoId)}`;
+}
@@ -0,0 +1,75 @@
+import type { KnownDrug } from "~/components/types";
+
+import { KNOWN_DRUGS_PAGE_SIZE } from "./drugs";
+import { allowPartialData, DiseaseNotFoundError } from "./errors";
+import { getReleaseSdk } from "./graphql";
+
+/** One cursor page of the known drugs for a target and disease. */
+export type KnownDrugsPage = {
+  rows: KnownDrug[];
+  /** Pass back as `cursor` for the next page; `null` after the last one. */
+  cursor: string | null;
+  /** GraphQL errors that came back alongside (partial) data. */
+  warnings: string[];
+};
+
+/**
+ * Upstream pages read at most for one page of the tab, so that a target
+ * matching few of the free-text hits cannot fan out into many requests.
+ */
+const MAX_UPSTREAM_PAGES = 5;
+
+/**
+ * Loads a page of `Disease.knownDrugs` for `efoId` acting on `ensemblId`.
+ * The API only offers a free-text filter, so entries it matched on another
+ * field are dropped here, and upstream pages are read until a full page of
+ * the target's entries is collected (or {@link MAX_UPSTREAM_PAGES} are
+ * read). The free-text `count` is not returned: it also counts the entries
+ * of other targets.
+ */
+export async function loadKnownDrugs(
+  efoId: string,
+  ensemblId: string,
+  request: Request,
+  cursor: string | null
+): Promise<KnownDrugsPage> {
+  const { sdk } = await getReleaseSdk(request);
+  const rows: KnownDrug[] = [];
+  const warnings = new Set<string>();
+  let next = cursor;
+
+  for (let read = 0; read < MAX_UPSTREAM_PAGES; read++) {
+    const { data: result, warnings: pageWarnings } = await allowPartialData(
+      sdk.diseaseKnownDrugs({
+        efoId,
+        freeTextQuery: ensemblId,
+        cursor: next ?? undefined,
+        size: KNOWN_DRUGS_PAGE_SIZE,
+      })
+    );
+    if (!result.disease) throw new DiseaseNotFoundError(efoId);
+
+    const knownDrugs = result.disease.knownDrugs;
+    const page = knownDrugs?.rows ?? [];
+    rows.push(
+      ...page
+        .filter((row) => row.targetId === ensemblId)
+        .map((row) => ({
+          drugId: row.drugId,
+          name: row.prefName,
+          modality: row.drugType,
+          mechanismOfAction: row.mechanismOfAction,
+          phase: row.phase,
+          status: row.status ?? null,
+          indication: row.label,
+        }))
+    );
+    pageWarnings.forEach((warning) => warnings.add(warning));
+    // A short page is the last one, whatever cursor came with it.
+    next =
+      page.length < KNOWN_DRUGS_PAGE_SIZE ? null : (knownDrugs?.cursor ?? null);
+    if (!next || rows.length >= KNOWN_DRUGS_PAGE_SIZE) break;
+  }
+
+  return { rows, cursor: next, warnings: [...warnings] };
+}
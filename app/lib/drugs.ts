@@ -0,0 +1,69 @@
+import type { KnownDrug } from "~/components/types";
+
+/** Known drug entries fetched per page of the known drugs tab. */
+export const KNOWN_DRUGS_PAGE_SIZE = 10;
+
+const PHASE_LABELS: Record<number, string> = {
+  0.5: "Early Phase I",
+  1: "Phase I",
+  2: "Phase II",
+  3: "Phase III",
+  4: "Phase IV",
+};
+
+export function formatPhase(phase: number) {
+  return PHASE_LABELS[phase] ?? `Phase ${phase}`;
+}
+
+/** A drug with its known drug entries for one target merged. */
+export type KnownDrugSummary = {
+  drugId: string;
+  name: string;
+  modality: string;
+  mechanismsOfAction: string[];
+  maxPhase: number;
+  /** Status of the entry that reached {@link KnownDrugSummary.maxPhase}. */
+  status: string | null;
+  indications: string[];
+};
+
+/**
+ * Merges the entries of each drug (one per indication, phase and trial
+ * status) into one row with its highest phase, sorted by that phase.
+ */
+export function summarizeKnownDrugs(entries: KnownDrug[]): KnownDrugSummary[] {
+  const byDrug = new Map<string, KnownDrugSummary>();
+  for (const entry of entries) {
+    const summary = byDrug.get(entry.drugId);
+    if (!summary) {
+      byDrug.set(entry.drugId, {
+        drugId: entry.drugId,
+        name: entry.name,
+        modality: entry.modality,
+        mechanismsOfAction: [entry.mechanismOfAction],
+        maxPhase: entry.phase,
+        status: entry.status,
+        indications: [entry.indication],
+      });
+      continue;
+    }
+    if (!summary.mechanismsOfAction.includes(entry.mechanismOfAction)) {
+      summary.mechanismsOfAction.push(entry.mechanismOfAction);
+    }
+    if (!summary.indications.includes(entry.indication)) {
+      summary.indications.push(entry.indication);
+    }
+    if (entry.phase > summary.maxPhase) {
+      summary.maxPhase = entry.phase;
+      summary.status = entry.status;
+    }
+  }
+  return [...byDrug.values()].sort(
+    (a, b) => b.maxPhase - a.maxPhase || a.name.localeCompare(b.name)
+  );
+}
+
+/** Open Targets Platform page of a drug, keyed on its ChEMBL id. */
+export function openTargetsDrugUrl(drugId: string) {
+  return `https://platform.opentargets.org/drug/${encodeURIComponent(drugId)}`;
+}
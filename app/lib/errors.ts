@@ -0,0 +1,181 @@
+import { ClientError } from "graphql-request";
+import { data } from "react-router";
+
+import type { Violation } from "./validation";
+
+/**
+ * The Open Targets API could not be reached: it timed out, kept failing
+ * after retries, or the circuit breaker is open.
+ */
+export class UpstreamUnavailableError extends Error {
+  name = "UpstreamUnavailableError";
+
+  constructor(
+    readonly operationName: string,
+    options?: { cause?: unknown; reason?: string }
+  ) {
+    super(
+      `Open Targets API unavailable for ${operationName}${options?.reason ? `: ${options.reason}` : ""}`,
+      { cause: options?.cause }
+    );
+  }
+}
+
+/** The API answered with GraphQL errors and no usable data. */
+export class GraphQLValidationError extends Error {
+  name = "GraphQLValidationError";
+
+  constructor(
+    readonly errors: string[],
+    options?: { cause?: unknown }
+  ) {
+    super(`Open Targets API rejected the query: ${errors.join("; ")}`, options);
+  }
+}
+
+/** `disease(efoId)` returned null. */
+export class DiseaseNotFoundError extends Error {
+  name = "DiseaseNotFoundError";
+
+  constructor(readonly efoId: string) {
+    super(`No disease found for ${efoId}`);
+  }
+}
+
+/** `target(ensemblId)` returned null. */
+export class TargetNotFoundError extends Error {
+  name = "TargetNotFoundError";
+
+  constructor(readonly ensemblId: string) {
+    super(`No target found for ${ensemblId}`);
+  }
+}
+
+/** An association row breaks the rules checked in `validation.ts`. */
+export class MalformedRowError extends Error {
+  name = "MalformedRowError";
+
+  constructor(
+    readonly index: number,
+    readonly violations: Violation[]
+  ) {
+    super(
+      `Association row ${index} is malformed: ${violations
+        .map((v) => `${v.path} (${v.rule})`)
+        .join(", ")}`
+    );
+  }
+}
+
+/** Strict response validation found values we cannot rely on. */
+export class ResponseValidationError extends Error {
+  name = "ResponseValidationError";
+
+  constructor(
+    readonly operationName: string,
+    readonly violations: Violation[]
+  ) {
+    super(
+      `${operationName} response failed validation (${violations.length} violations)`
+    );
+  }
+}
+
+/** Payload of the error responses built by {@link toRouteError}. */
+export type RouteErrorData = {
+  kind:
+    | "upstream-unavailable"
+    | "graphql-validation"
+    | "invalid-response"
+    | "not-found";
+  message: string;
+  errors?: string[];
+};
+
+/**
+ * Resolves to the data of a query that came back with GraphQL errors but
+ * still carried data (the errors become `warnings`), so the rows that did
+ * come back can be rendered. Errors without any data become
+ * {@link GraphQLValidationError}.
+ */
+export async function allowPartialData<T>(
+  request: Promise<T>
+): Promise<{ data: T; warnings: string[] }> {
+  try {
+    return { data: await request, warnings: [] };
+  } catch (error) {
+    if (!(error instanceof ClientError) || !error.response.errors?.length) {
+      throw error;
+    }
+    const messages = error.response.errors.map((e) =>
+      e.path ? `${e.message} (at ${e.path.join(".")})` : e.message
+    );
+    if (error.response.data == null) {
+      throw new GraphQLValidationError(messages, { cause: error });
+    }
+    return { data: error.response.data as T, warnings: messages };
+  }
+}
+
+type RouteError = { status: number; statusText: string; data: RouteErrorData };
+
+/** Status and payload for the typed errors above; `null` for anything else. */
+export function toRouteError(error: unknown): RouteError | null {
+  if (error instanceof UpstreamUnavailableError) {
+    return {
+      status: 503,
+      statusText: "Upstream unavailable",
+      data: {
+        kind: "upstream-unavailable",
+        message:
+          "Open Targets is not responding right now. Please try again in a moment.",
+      },
+    };
+  }
+  if (error instanceof GraphQLValidationError) {
+    return {
+      status: 502,
+      statusText: "Bad gateway",
+      data: {
+        kind: "graphql-validation",
+        message: "The Open Targets API rejected the request.",
+        errors: error.errors,
+      },
+    };
+  }
+  if (error instanceof ResponseValidationError) {
+    return {
+      status: 502,
+      statusText: "Bad gateway",
+      data: {
+        kind: "invalid-response",
+        message: "The Open Targets API returned data in an unexpected shape.",
+        errors: error.violations.map(
+          (v) => `${v.path}: expected ${v.expected}, got ${JSON.stringify(v.actual)}`
+        ),
+      },
+    };
+  }
+  if (
+    error instanceof DiseaseNotFoundError ||
+    error instanceof TargetNotFoundError
+  ) {
+    return {
+      status: 404,
+      statusText: "Not found",
+      data: { kind: "not-found", message: error.message },
+    };
+  }
+  return null;
+}
+
+/**
+ * Turns the typed errors above into error responses for the route
+ * ErrorBoundary; any other error is re-thrown unchanged.
+ */
+export function rethrowAsRouteError(error: unknown): never {
+  const routeError = toRouteError(error);
+  if (!routeError) throw error;
+  const { status, statusText } = routeError;
+  throw data<RouteErrorData>(routeError.data, { status, statusText });
+}
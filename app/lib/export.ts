@@ -0,0 +1,89 @@
+import type { AssocRow } from "~/components/types";
+
+import { DATATYPE_IDS } from "./datatypes";
+
+export const EXPORT_FORMATS = ["csv", "tsv"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return (EXPORT_FORMATS as readonly string[]).includes(value);
+}
+
+/** `page` exports the rows on screen; `all` every row matching the filters. */
+export type ExportScope = "page" | "all";
+
+/** Upper bound on rows in an `all` export, to keep downloads bounded. */
+export const MAX_EXPORT_ROWS = 5_000;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  tsv: "text/tab-separated-values; charset=utf-8",
+};
+
+function csvField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** TSV has no quoting, so tabs and line breaks inside values become spaces. */
+function tsvField(value: string) {
+  return value.replace(/[\t\r\n]+/g, " ");
+}
+
+/**
+ * The datatype columns of an export: every datatype the rows have scores for,
+ * in {@link DATATYPE_IDS} order, then any the app does not know yet.
+ */
+function exportDatatypeIds(rows: AssocRow[]) {
+  const ids = new Set(
+    rows.flatMap((row) => row.datatypeScores.map((d) => d.id))
+  );
+  const known: string[] = DATATYPE_IDS.filter((id) => ids.has(id));
+  return [...known, ...[...ids].filter((id) => !known.includes(id))];
+}
+
+/**
+ * Serializes association rows as CSV or TSV: Ensembl id, symbol, name,
+ * overall score and one column per datatype in the rows (empty when the
+ * target has no evidence of that type). `comments` become leading `# ` lines.
+ */
+export function toDelimited(
+  rows: AssocRow[],
+  format: ExportFormat,
+  comments: string[] = []
+) {
+  const [separator, field] =
+    format === "csv" ? [",", csvField] : ["\t", tsvField];
+  const line = (values: string[]) => values.map(field).join(separator);
+
+  const datatypeIds = exportDatatypeIds(rows);
+  const header = ["ensembl_id", "symbol", "name", "score", ...datatypeIds];
+  const body = rows.map((row) => {
+    const scores = new Map(row.datatypeScores.map((d) => [d.id, d.score]));
+    return line([
+      row.id,
+      row.approvedSymbol,
+      row.approvedName,
+      String(row.score),
+      ...datatypeIds.map((id) => String(scores.get(id) ?? "")),
+    ]);
+  });
+
+  return [
+    ...comments.map((comment) => `# ${comment.replace(/[\r\n]+/g, " ")}`),
+    line(header),
+    ...body,
+  ].join("\n") + "\n";
+}
+
+/** `lung-carcinoma-associations-25.06.csv` */
+export function exportFilename(
+  diseaseName: string,
+  dataVersion: string,
+  format: ExportFormat
+) {
+  const slug = diseaseName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "disease"}-associations-${dataVersion}.${format}`;
+}
@@ -0,0 +1,24 @@
+import type { TargetFacet } from "~/components/types";
+
+/** Open Targets target facet categories offered as association filters. */
+export const TARGET_FACET_CATEGORIES = [
+  "Target Class",
+  "Tractability Small Molecule",
+  "Tractability Antibody",
+  "Tractability PROTAC",
+  "Tractability Other Modalities",
+] as const;
+
+/**
+ * Facet ids are opaque, so the URL keeps the category and label alongside
+ * them (`facet=<id>|<category>|<label>`) to render the selection on reload.
+ */
+export function encodeFacet({ id, category, label }: TargetFacet) {
+  return [id, category, label].join("|");
+}
+
+export function decodeFacet(value: string): TargetFacet | null {
+  const [id, category, ...label] = value.split("|");
+  if (!id || !category || label.length === 0) return null;
+  return { id, category, label: label.join("|") };
+}
@@ -1,5 +1,104 @@
 import { GraphQLClient } from "graphql-request";
+
+import { getSdk, type SdkFunctionWrapper } from "~/graphql/generated";
+
+import { cacheWrapper, ResponseCache } from "./cache";
+import { type DataRelease, toDataRelease } from "./release";
+import {
+  CircuitBreaker,
+  fetchWithTimeout,
+  resilienceWrapper,
+  type RetryOptions,
+} from "./resilience";
+
 export const endpoint = process.env.GRAPHQL_API_URL || "https://api.platform.opentargets.org/api/v4/graphql";
+
+function envInt(name: string, fallback: number) {
+  const value = Number.parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/** Request header that makes the server skip cached Open Targets responses. */
+export const cacheBypassHeader = (
+  process.env.GRAPHQL_CACHE_BYPASS_HEADER || "x-cache-bypass"
+).toLowerCase();
+
+export const responseCache = new ResponseCache({
+  maxEntries: envInt("GRAPHQL_CACHE_MAX_ENTRIES", 500),
+  ttlMs: envInt("GRAPHQL_CACHE_TTL_MS", 5 * 60_000),
+  staleMs: envInt("GRAPHQL_CACHE_STALE_MS", 60 * 60_000),
+});
+
+const requestTimeoutMs = envInt("GRAPHQL_TIMEOUT_MS", 10_000);
+
+const retryOptions: RetryOptions = {
+  retries: envInt("GRAPHQL_RETRIES", 2),
+  baseDelayMs: envInt("GRAPHQL_RETRY_BASE_MS", 250),
+  maxDelayMs: envInt("GRAPHQL_RETRY_MAX_MS", 4_000),
+};
+
+export const circuitBreaker = new CircuitBreaker({
+  failureThreshold: envInt("GRAPHQL_BREAKER_THRESHOLD", 5),
+  resetAfterMs: envInt("GRAPHQL_BREAKER_RESET_MS", 30_000),
+});
+
 export function getClient() {
-  return new GraphQLClient(endpoint, { headers: {} });
+  return new GraphQLClient(endpoint, {
+    headers: {},
+    fetch: fetchWithTimeout(requestTimeoutMs),
+  });
+}
+
+/** Runs `outer` around `inner`: `outer` sees the call first and last. */
+function composeWrappers(
+  outer: SdkFunctionWrapper,
+  inner: SdkFunctionWrapper
+): SdkFunctionWrapper {
+  return (action, operationName, operationType, variables) =>
+    outer(
+      (headers) =>
+        inner(() => action(headers), operationName, operationType, variables),
+      operationName,
+      operationType,
+      variables
+    );
+}
+
+/**
+ * Returns the codegen SDK backed by the shared response cache, with
+ * timeouts, retries and the circuit breaker applied to upstream calls (the
+ * cache sits outside them, so it can still answer while the circuit is open).
+ * Passing the incoming `request` lets callers opt out of cached data with
+ * the {@link cacheBypassHeader} header (any value other than `0`/`false`);
+ * passing a `release` keys cache entries on its data version.
+ */
+export function getCachedSdk(request?: Request, release?: DataRelease) {
+  const header = request?.headers.get(cacheBypassHeader);
+  const bypass = header != null && !/^(0|false)$/i.test(header);
+  return getSdk(
+    getClient(),
+    composeWrappers(
+      cacheWrapper(responseCache, {
+        bypass,
+        namespace: release?.dataVersion,
+      }),
+      resilienceWrapper(circuitBreaker, retryOptions)
+    )
+  );
+}
+
+/** The data release currently served by the API (cached like any query). */
+export async function loadRelease(request?: Request) {
+  const { meta } = await getCachedSdk(request).apiMeta();
+  return toDataRelease(meta);
+}
+
+/**
+ * Looks up the current data release first and returns an SDK whose cache
+ * entries are keyed on it, so responses from different releases are never
+ * mixed. Loaders should return `release` so pages can cite it.
+ */
+export async function getReleaseSdk(request?: Request) {
+  const release = await loadRelease(request);
+  return { sdk: getCachedSdk(request, release), release };
 }
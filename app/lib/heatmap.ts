@@ -0,0 +1,77 @@
+import type { AssocRow } from "~/components/types";
+
+import { DATATYPE_IDS } from "./datatypes";
+
+export type HeatmapOrder = "table" | "cluster";
+
+/** Each row's datatype scores, one column per datatype (0 when missing). */
+export function scoreMatrix(rows: AssocRow[], datatypeIds: readonly string[]) {
+  return rows.map((row) =>
+    datatypeIds.map(
+      (id) => row.datatypeScores.find((d) => d.id === id)?.score ?? 0
+    )
+  );
+}
+
+/**
+ * Leaf order of an average-linkage hierarchical clustering of `vectors`
+ * (Euclidean distance), so that similar vectors end up next to each other.
+ * Cluster distances are updated in place after each merge (Lance–Williams),
+ * so a page of 100 targets clusters in O(n³) time without recomputing them.
+ */
+export function clusterOrder(vectors: number[][]): number[] {
+  const clusters = vectors.map((_, i) => [i]);
+  const distance = vectors.map((a) =>
+    vectors.map((b) => Math.hypot(...a.map((value, k) => value - b[k])))
+  );
+
+  while (clusters.length > 1) {
+    let [left, right] = [0, 1];
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        if (distance[i][j] < distance[left][right]) [left, right] = [i, j];
+      }
+    }
+
+    const [a, b] = [clusters[left].length, clusters[right].length];
+    for (let k = 0; k < clusters.length; k++) {
+      const merged = (a * distance[left][k] + b * distance[right][k]) / (a + b);
+      distance[left][k] = merged;
+      distance[k][left] = merged;
+    }
+    distance[left][left] = 0;
+    clusters[left] = [...clusters[left], ...clusters[right]];
+    clusters.splice(right, 1);
+    distance.splice(right, 1);
+    distance.forEach((row) => row.splice(right, 1));
+  }
+
+  return clusters[0] ?? [];
+}
+
+/**
+ * Row and column order of the heatmap. In table order, targets keep the
+ * order of `rows` (the table's sort) and datatypes go by descending mean
+ * score; by clustering, both are ordered by {@link clusterOrder} so similar
+ * evidence profiles sit together.
+ */
+export function heatmapOrder(rows: AssocRow[], order: HeatmapOrder) {
+  const matrix = scoreMatrix(rows, DATATYPE_IDS);
+  const columns = DATATYPE_IDS.map((_, c) => matrix.map((row) => row[c]));
+
+  if (order === "cluster") {
+    return {
+      rows: clusterOrder(matrix).map((i) => rows[i]),
+      datatypeIds: clusterOrder(columns).map((c) => DATATYPE_IDS[c]),
+    };
+  }
+
+  const mean = (values: number[]) =>
+    values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+  return {
+    rows,
+    datatypeIds: DATATYPE_IDS.map((id, c) => ({ id, mean: mean(columns[c]) }))
+      .sort((a, b) => b.mean - a.mean)
+      .map(({ id }) => id),
+  };
+}
@@ -0,0 +1,67 @@
+import { createHash } from "node:crypto";
+
+import { toRouteError } from "./errors";
+import { responseCache } from "./graphql";
+
+/** Strong ETag for a response body: a quoted SHA-1 of its bytes. */
+export function etagFor(body: string) {
+  return `"${createHash("sha1").update(body).digest("hex")}"`;
+}
+
+/** Whether `If-None-Match` lists `etag` (weak comparison, `*` matches all). */
+export function matchesETag(request: Request, etag: string) {
+  const header = request.headers.get("if-none-match");
+  if (!header) return false;
+  return header
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === "*" || tag === etag);
+}
+
+/**
+ * Serializes `body` with an ETag and answers `304 Not Modified` when the
+ * client already holds that version. Other `headers` (e.g. Cache-Control)
+ * go on both responses.
+ */
+export function conditionalJson(
+  request: Request,
+  body: unknown,
+  headers: Record<string, string> = {}
+) {
+  const json = JSON.stringify(body);
+  const etag = etagFor(json);
+  const responseHeaders = { ...headers, ETag: etag };
+  if (matchesETag(request, etag)) {
+    return new Response(null, { status: 304, headers: responseHeaders });
+  }
+  return new Response(json, {
+    headers: {
+      ...responseHeaders,
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * `Cache-Control` for JSON built from Open Targets responses: browsers and
+ * proxies may keep it as long as the response cache does, fresh and then
+ * stale-while-revalidate.
+ */
+export function cacheControlHeader() {
+  const { ttlMs, staleMs } = responseCache.options;
+  return `public, max-age=${Math.floor(ttlMs / 1000)}, stale-while-revalidate=${Math.floor(staleMs / 1000)}`;
+}
+
+/**
+ * A resource route's error response: `{ error: { kind, message } }` with
+ * the status {@link toRouteError} maps the error to. Errors it does not know
+ * are rethrown, as in page loaders.
+ */
+export function jsonError(error: unknown) {
+  const routeError = toRouteError(error);
+  if (!routeError) throw error;
+  return Response.json(
+    { error: routeError.data },
+    { status: routeError.status, statusText: routeError.statusText }
+  );
+}
@@ -0,0 +1,183 @@
+import type { Publication, YearCount } from "~/components/types";
+import type { TargetDiseaseLiteratureQuery } from "~/graphql/generated";
+
+import { allowPartialData, TargetNotFoundError } from "./errors";
+import { getReleaseSdk } from "./graphql";
+import { LITERATURE_TIMELINE_YEARS } from "./literature";
+
+/** One cursor page of the publications co-mentioning a target and disease. */
+export type LiteraturePage = {
+  rows: Publication[];
+  /** Pass back as `cursor` for the next page; `null` after the last one. */
+  cursor: string | null;
+  /** Publications across all pages. */
+  count: number;
+  /**
+   * Publications per year over the last {@link LITERATURE_TIMELINE_YEARS}
+   * years. Only on the first page.
+   */
+  timeline?: YearCount[];
+  /** GraphQL errors that came back alongside (partial) data. */
+  warnings: string[];
+};
+
+type PublicationRow = NonNullable<
+  TargetDiseaseLiteratureQuery["target"]
+>["literatureOcurrences"]["rows"][number];
+
+/** Range counts are one upstream request each; this many run at a time. */
+const TIMELINE_CONCURRENCY = 5;
+
+/**
+ * Last year of the timeline: the current one, unless pinned with
+ * `LITERATURE_TIMELINE_END_YEAR` (the e2e tests pin it to their fixtures).
+ */
+export function timelineEndYear(now = new Date()) {
+  const pinned = Number.parseInt(
+    process.env.LITERATURE_TIMELINE_END_YEAR ?? "",
+    10
+  );
+  return Number.isFinite(pinned) ? pinned : now.getUTCFullYear();
+}
+
+type YearRange = { start: number; end: number; count: number };
+
+function toPublication(row: PublicationRow): Publication {
+  const terms = new Map<string, Set<string>>();
+  for (const { section, matches } of row.sentences ?? []) {
+    const labels = terms.get(section) ?? new Set<string>();
+    for (const match of matches) labels.add(match.matchedLabel);
+    terms.set(section, labels);
+  }
+  return {
+    pmid: row.pmid,
+    pmcid: row.pmcid ?? null,
+    date: row.publicationDate ?? null,
+    matches: [...terms].map(([section, labels]) => ({
+      section,
+      terms: [...labels],
+    })),
+  };
+}
+
+/**
+ * Publications per year from `firstYear` to `lastYear`. The API has no
+ * per-year aggregation, so ranges are counted with `filteredCount` and
+ * halved: only the first half of each range with publications is requested,
+ * the second half is the difference, and empty ranges are not split further.
+ * That costs at most one request per year, and far fewer for sparse years.
+ */
+async function loadTimeline(
+  sdk: Awaited<ReturnType<typeof getReleaseSdk>>["sdk"],
+  ids: { ensemblId: string; efoId: string },
+  firstYear: number,
+  lastYear: number
+) {
+  const warnings = new Set<string>();
+  const countRange = async (start: number, end: number) => {
+    const { data, warnings: rangeWarnings } = await allowPartialData(
+      sdk.targetDiseaseLiteratureCount({
+        ...ids,
+        startYear: start,
+        endYear: end,
+      })
+    );
+    rangeWarnings.forEach((warning) => warnings.add(warning));
+    return Number(data.target?.literatureOcurrences.filteredCount ?? 0);
+  };
+
+  const counts = new Map<number, number>();
+  let ranges: YearRange[] = [
+    {
+      start: firstYear,
+      end: lastYear,
+      count: await countRange(firstYear, lastYear),
+    },
+  ];
+  while (ranges.length > 0) {
+    const split = ranges.filter((r) => r.count > 0 && r.start < r.end);
+    for (const r of ranges) {
+      if (split.includes(r)) continue;
+      for (let year = r.start; year <= r.end; year++) {
+        counts.set(year, year === r.start ? r.count : 0);
+      }
+    }
+
+    const next: YearRange[] = [];
+    for (let i = 0; i < split.length; i += TIMELINE_CONCURRENCY) {
+      const halves = await Promise.all(
+        split.slice(i, i + TIMELINE_CONCURRENCY).map(async (r) => {
+          const mid = Math.floor((r.start + r.end) / 2);
+          const first = await countRange(r.start, mid);
+          return [
+            { start: r.start, end: mid, count: first },
+            { start: mid + 1, end: r.end, count: r.count - first },
+          ];
+        })
+      );
+      next.push(...halves.flat());
+    }
+    ranges = next;
+  }
+
+  return {
+    timeline: [...counts]
+      .sort(([a], [b]) => a - b)
+      .map(([year, count]) => ({ year, count })),
+    warnings: [...warnings],
+  };
+}
+
+/**
+ * Loads a page of the publications (Europe PMC text mining) that mention
+ * both `ensemblId` and `efoId`. The first page also carries the per-year
+ * timeline, from the earliest publication year (at most
+ * {@link LITERATURE_TIMELINE_YEARS} back) to {@link timelineEndYear}.
+ */
+export async function loadLiterature(
+  efoId: string,
+  ensemblId: string,
+  request: Request,
+  cursor: string | null
+): Promise<LiteraturePage> {
+  const { sdk } = await getReleaseSdk(request);
+  const { data: result, warnings } = await allowPartialData(
+    sdk.targetDiseaseLiterature({
+      ensemblId,
+      efoId,
+      cursor: cursor ?? undefined,
+    })
+  );
+  if (!result.target) throw new TargetNotFoundError(ensemblId);
+
+  const publications = result.target.literatureOcurrences;
+  const count = Number(publications.count);
+  const page: LiteraturePage = {
+    rows: publications.rows.map(toPublication),
+    cursor:
+      publications.rows.length > 0 ? (publications.cursor ?? null) : null,
+    count,
+    warnings,
+  };
+  if (cursor) return page;
+  if (count === 0) return { ...page, timeline: [] };
+
+  const lastYear = timelineEndYear();
+  const firstYear = Math.max(
+    publications.earliestPubYear,
+    lastYear - LITERATURE_TIMELINE_YEARS + 1
+  );
+  if (firstYear > lastYear) return { ...page, timeline: [] };
+
+  const timeline = await loadTimeline(
+    sdk,
+    { ensemblId, efoId },
+    firstYear,
+    lastYear
+  );
+  return {
+    ...page,
+    timeline: timeline.timeline,
+    warnings: [...new Set([...warnings, ...timeline.warnings])],
+  };
+}
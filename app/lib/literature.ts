@@ -0,0 +1,10 @@
+/** Years covered by the publication timeline, ending with the current one. */
+export const LITERATURE_TIMELINE_YEARS = 20;
+
+export function pubmedUrl(pmid: string) {
+  return `https://pubmed.ncbi.nlm.nih.gov/${encodeURIComponent(pmid)}/`;
+}
+
+export function europePmcUrl(pmcid: string) {
+  return `https://europepmc.org/article/PMC/${encodeURIComponent(pmcid)}`;
+}
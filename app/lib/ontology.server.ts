@@ -0,0 +1,56 @@
+import type { OntologyTerm } from "~/components/types";
+
+import { allowPartialData, DiseaseNotFoundError } from "./errors";
+import { getReleaseSdk } from "./graphql";
+
+type DiseaseTerm = { id: string; name: string };
+
+/** A disease's place in the EFO hierarchy, one level up and one down. */
+export type DiseaseOntology = {
+  disease: DiseaseTerm & { isTherapeuticArea: boolean };
+  /** Empty when the disease is a therapeutic area itself. */
+  therapeuticAreas: DiseaseTerm[];
+  parents: DiseaseTerm[];
+  children: OntologyTerm[];
+  warnings: string[];
+};
+
+const byName = (a: DiseaseTerm, b: DiseaseTerm) => a.name.localeCompare(b.name);
+
+/**
+ * Loads the therapeutic areas, parents and children of a disease for the
+ * ontology tree. Children carry their own child count so the tree knows which
+ * nodes can be expanded; expanding one loads it through this same function.
+ */
+export async function loadDiseaseOntology(
+  efoId: string,
+  request: Request
+): Promise<DiseaseOntology> {
+  const { sdk } = await getReleaseSdk(request);
+  const {
+    data: { disease },
+    warnings,
+  } = await allowPartialData(sdk.diseaseOntology({ efoId }));
+  if (!disease) throw new DiseaseNotFoundError(efoId);
+
+  return {
+    disease: {
+      id: disease.id,
+      name: disease.name,
+      isTherapeuticArea: disease.isTherapeuticArea,
+    },
+    therapeuticAreas: disease.therapeuticAreas
+      .filter((area) => area.id !== disease.id)
+      .map(({ id, name }) => ({ id, name }))
+      .sort(byName),
+    parents: disease.parents.map(({ id, name }) => ({ id, name })).sort(byName),
+    children: disease.children
+      .map(({ id, name, children }) => ({
+        id,
+        name,
+        childCount: children.length,
+      }))
+      .sort(byName),
+    warnings,
+  };
+}
@@ -0,0 +1,64 @@
+import type {
+  AssocRow,
+  MergedTarget,
+  SetIntersection,
+} from "~/components/types";
+
+/** Stable key of a set combination, e.g. `0&2`. */
+export function intersectionKey(sets: number[]) {
+  return sets.join("&");
+}
+
+/** Indices of the diseases a merged target is associated with. */
+export function targetSets(target: MergedTarget) {
+  return target.scores.flatMap((score, i) => (score == null ? [] : [i]));
+}
+
+/**
+ * Merges the association rows of several diseases into one entry per target,
+ * with a score column per disease (`null` where the target has no association
+ * with it, which counts as 0 in the delta). Sorted by descending delta, so
+ * the targets whose association differs most between the diseases come first.
+ */
+export function mergeDiseaseTargets(diseaseRows: AssocRow[][]): MergedTarget[] {
+  const merged = new Map<string, MergedTarget>();
+  diseaseRows.forEach((rows, i) => {
+    for (const row of rows) {
+      const target = merged.get(row.id) ?? {
+        id: row.id,
+        approvedSymbol: row.approvedSymbol,
+        approvedName: row.approvedName,
+        scores: diseaseRows.map(() => null),
+        delta: 0,
+      };
+      target.scores[i] = row.score;
+      merged.set(row.id, target);
+    }
+  });
+
+  return [...merged.values()]
+    .map((target) => {
+      const scores = target.scores.map((score) => score ?? 0);
+      return { ...target, delta: Math.max(...scores) - Math.min(...scores) };
+    })
+    .sort((a, b) => b.delta - a.delta);
+}
+
+/**
+ * The exclusive intersections of the diseases' target sets: every target
+ * counts towards exactly one, the combination of diseases it is associated
+ * with. Largest first, ties broken by fewer diseases.
+ */
+export function setIntersections(targets: MergedTarget[]): SetIntersection[] {
+  const intersections = new Map<string, SetIntersection>();
+  for (const target of targets) {
+    const sets = targetSets(target);
+    const key = intersectionKey(sets);
+    const intersection = intersections.get(key) ?? { sets, count: 0 };
+    intersection.count += 1;
+    intersections.set(key, intersection);
+  }
+  return [...intersections.values()].sort(
+    (a, b) => b.count - a.count || a.sets.length - b.sets.length
+  );
+}
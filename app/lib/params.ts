@@ -0,0 +1,134 @@
+import type { TargetFacet } from "~/components/types";
+
+import { isDatatypeId } from "./datatypes";
+import { decodeFacet, encodeFacet } from "./facets";
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100] as const;
+export const DEFAULT_PAGE_SIZE = 10;
+
+/** Sorts on the overall association score rather than a datatype score. */
+export const OVERALL_SCORE = "score";
+
+export type SortDirection = "asc" | "desc";
+
+/** Association table state that lives in the URL search params. */
+export type AssociationParams = {
+  /** Zero-based page index (the `page` search param is one-based). */
+  pageIndex: number;
+  pageSize: number;
+  /** {@link OVERALL_SCORE} or a datatype id such as `known_drug`. */
+  sortBy: string;
+  sortDirection: SortDirection;
+  /** Datasource weight overrides (`w=europepmc:0.1,impc:0.5`). */
+  weights: Record<string, number>;
+  /** Datasources that a target must have evidence from (`req=chembl`). */
+  required: string[];
+  /**
+   * Whether evidence on descendant terms counts towards the association
+   * (default); `evidence=direct` restricts it to the disease itself.
+   */
+  indirect: boolean;
+  /** Free-text target name/symbol filter (`q`), sent as `BFilter`. */
+  query: string;
+  /** Selected target facets (`facet`, repeatable), sent as `facetFilters`. */
+  facets: TargetFacet[];
+};
+
+function parseWeights(value: string | null) {
+  const weights: Record<string, number> = {};
+  for (const pair of (value ?? "").split(",")) {
+    const [id, raw] = pair.split(":");
+    const weight = Number(raw);
+    if (id && raw && Number.isFinite(weight) && weight >= 0 && weight <= 1) {
+      weights[id] = weight;
+    }
+  }
+  return weights;
+}
+
+function parseList(value: string | null) {
+  return (value ?? "").split(",").filter(Boolean);
+}
+
+export function parseAssociationParams(
+  searchParams: URLSearchParams
+): AssociationParams {
+  const page = Number.parseInt(searchParams.get("page") ?? "", 10);
+  const size = Number.parseInt(searchParams.get("size") ?? "", 10);
+  const sort = searchParams.get("sort") ?? "";
+  return {
+    pageIndex: Number.isFinite(page) && page > 1 ? page - 1 : 0,
+    pageSize: (PAGE_SIZE_OPTIONS as readonly number[]).includes(size)
+      ? size
+      : DEFAULT_PAGE_SIZE,
+    sortBy: isDatatypeId(sort) ? sort : OVERALL_SCORE,
+    sortDirection: searchParams.get("dir") === "asc" ? "asc" : "desc",
+    weights: parseWeights(searchParams.get("w")),
+    required: parseList(searchParams.get("req")),
+    indirect: searchParams.get("evidence") !== "direct",
+    query: (searchParams.get("q") ?? "").trim(),
+    facets: searchParams
+      .getAll("facet")
+      .map(decodeFacet)
+      .filter((f): f is TargetFacet => f !== null),
+  };
+}
+
+/** Whether the associations are narrowed by a text or facet filter. */
+export function isFiltered({ query, facets }: AssociationParams) {
+  return query !== "" || facets.length > 0;
+}
+
+/** Whether the datasource settings differ from the Open Targets defaults. */
+export function hasCustomWeights({ weights, required }: AssociationParams) {
+  return Object.keys(weights).length > 0 || required.length > 0;
+}
+
+/** The `orderByScore` argument of `associatedTargets`, e.g. `"known_drug desc"`. */
+export function toOrderByScore({ sortBy, sortDirection }: AssociationParams) {
+  return `${sortBy} ${sortDirection}`;
+}
+
+/**
+ * Applies `changes` to `searchParams`, leaving out values that match the
+ * defaults so URLs stay short.
+ */
+export function withAssociationParams(
+  searchParams: URLSearchParams,
+  changes: Partial<AssociationParams>
+) {
+  const next = { ...parseAssociationParams(searchParams), ...changes };
+  const params = new URLSearchParams(searchParams);
+
+  if (next.pageIndex > 0) params.set("page", String(next.pageIndex + 1));
+  else params.delete("page");
+
+  if (next.pageSize !== DEFAULT_PAGE_SIZE) params.set("size", String(next.pageSize));
+  else params.delete("size");
+
+  if (next.sortBy !== OVERALL_SCORE) params.set("sort", next.sortBy);
+  else params.delete("sort");
+
+  if (next.sortDirection !== "desc") params.set("dir", next.sortDirection);
+  else params.delete("dir");
+
+  const weights = Object.entries(next.weights)
+    .map(([id, weight]) => `${id}:${weight}`)
+    .join(",");
+  if (weights) params.set("w", weights);
+  else params.delete("w");
+
+  if (next.required.length > 0) params.set("req", next.required.join(","));
+  else params.delete("req");
+
+  if (!next.indirect) params.set("evidence", "direct");
+  else params.delete("evidence");
+
+  if (next.query) params.set("q", next.query);
+  else params.delete("q");
+
+  params.delete("facet");
+  for (const facet of next.facets) params.append("facet", encodeFacet(facet));
+
+  return params;
+}
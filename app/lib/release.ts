@@ -0,0 +1,40 @@
+import type { ApiMetaQuery } from "~/graphql/generated";
+
+/** The Open Targets data release and API version that served a response. */
+export type DataRelease = {
+  /** Data release, e.g. `25.06`. */
+  dataVersion: string;
+  /** API version, e.g. `25.0.3`. */
+  apiVersion: string;
+};
+
+/**
+ * `25.06` for the first iteration of a release; later iterations get a
+ * suffix (`25.06.1`).
+ */
+export function toDataRelease({
+  apiVersion,
+  dataVersion,
+}: ApiMetaQuery["meta"]): DataRelease {
+  const { year, month, iteration } = dataVersion;
+  const suffix = iteration && iteration !== "0" ? `.${iteration}` : "";
+  return {
+    dataVersion: `${year}.${month.padStart(2, "0")}${suffix}`,
+    apiVersion: [apiVersion.x, apiVersion.y, apiVersion.z].join("."),
+  };
+}
+
+/** "Open Targets Platform 25.06 (API 25.0.3)", for footers and exports. */
+export function describeRelease({ dataVersion, apiVersion }: DataRelease) {
+  return `Open Targets Platform ${dataVersion} (API ${apiVersion})`;
+}
+
+/** `<meta>` tags that record which release a page was rendered from. */
+export function releaseMeta(release: DataRelease | undefined) {
+  return release
+    ? [
+        { name: "opentargets:data-version", content: release.dataVersion },
+        { name: "opentargets:api-version", content: release.apiVersion },
+      ]
+    : [];
+}
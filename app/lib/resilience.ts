@@ -0,0 +1,120 @@
+import { ClientError } from "graphql-request";
+
+import type { SdkFunctionWrapper } from "~/graphql/generated";
+
+import { UpstreamUnavailableError } from "./errors";
+
+export type RetryOptions = {
+  /** Extra attempts after the first one, for queries only. */
+  retries: number;
+  /** First backoff step; each retry doubles it, up to `maxDelayMs`. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export type BreakerOptions = {
+  /** Consecutive failed requests that open the circuit. */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through. */
+  resetAfterMs: number;
+};
+
+/**
+ * Classic closed → open → half-open circuit breaker. While open, requests
+ * fail immediately instead of waiting on an upstream that is known to be down.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+
+  constructor(readonly options: BreakerOptions) {}
+
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt === null) return "closed";
+    return Date.now() - this.openedAt >= this.options.resetAfterMs
+      ? "half-open"
+      : "open";
+  }
+
+  canRequest() {
+    return this.state !== "open";
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  recordFailure() {
+    this.failures += 1;
+    if (this.state === "half-open" || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/** 5xx responses, network failures and timeouts; GraphQL errors are not retried. */
+export function isRetryable(error: unknown) {
+  if (error instanceof ClientError) return error.response.status >= 500;
+  if (error instanceof Error) {
+    return (
+      error.name === "TimeoutError" ||
+      error.name === "FetchError" ||
+      error instanceof TypeError
+    );
+  }
+  return false;
+}
+
+/** Exponential backoff with full jitter. */
+export function backoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions) {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * An {@link SdkFunctionWrapper} that retries queries on retryable errors and
+ * reports to `breaker`. A request that still fails after its retries, or
+ * that arrives while the circuit is open, rejects with
+ * {@link UpstreamUnavailableError}.
+ */
+export function resilienceWrapper(
+  breaker: CircuitBreaker,
+  retry: RetryOptions
+): SdkFunctionWrapper {
+  return async (action, operationName, operationType) => {
+    if (!breaker.canRequest()) {
+      throw new UpstreamUnavailableError(operationName, {
+        reason: "circuit open",
+      });
+    }
+
+    const attempts = operationType === "query" ? retry.retries + 1 : 1;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await action();
+        breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!isRetryable(error)) throw error;
+        if (attempt + 1 >= attempts) {
+          breaker.recordFailure();
+          throw new UpstreamUnavailableError(operationName, { cause: error });
+        }
+        await sleep(backoffDelay(attempt, retry));
+      }
+    }
+  };
+}
+
+/** `fetch` that aborts after `timeoutMs`, on top of any caller signal. */
+export function fetchWithTimeout(timeoutMs: number): typeof fetch {
+  return (input, init) => {
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const signal = init?.signal
+      ? AbortSignal.any([init.signal, timeout])
+      : timeout;
+    return fetch(input, { ...init, signal });
+  };
+}
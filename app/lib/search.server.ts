@@ -0,0 +1,61 @@
+import type { SearchGroup } from "~/components/types";
+
+import { allowPartialData } from "./errors";
+import { getReleaseSdk } from "./graphql";
+import {
+  MIN_SEARCH_LENGTH,
+  normalizeSearchQuery,
+  SEARCH_ENTITIES,
+} from "./search";
+
+/** Hits fetched per query, across all entities. */
+const SEARCH_PAGE_SIZE = 15;
+
+export type SearchData = { query: string; groups: SearchGroup[] };
+
+/**
+ * Searches diseases, targets and drugs for `query` and groups the hits by
+ * entity, with each entity's total from the search aggregations. The query
+ * is normalized first, so the response cache (keyed on the variables) holds
+ * one entry per distinct query string.
+ */
+export async function searchEntities(
+  query: string,
+  request: Request
+): Promise<SearchData> {
+  const queryString = normalizeSearchQuery(query);
+  if (queryString.length < MIN_SEARCH_LENGTH) {
+    return { query: queryString, groups: [] };
+  }
+
+  const { sdk } = await getReleaseSdk(request);
+  const {
+    data: { search },
+  } = await allowPartialData(
+    sdk.search({
+      queryString,
+      entityNames: [...SEARCH_ENTITIES],
+      page: { index: 0, size: SEARCH_PAGE_SIZE },
+    })
+  );
+
+  const totals = new Map(
+    (search.aggregations?.entities ?? []).map(({ name, total }) => [
+      name,
+      Number(total),
+    ])
+  );
+  const groups = SEARCH_ENTITIES.map((entity) => {
+    const hits = search.hits
+      .filter((hit) => hit.entity === entity)
+      .map(({ id, name, description }) => ({
+        id,
+        entity,
+        name,
+        description: description ?? null,
+      }));
+    return { entity, total: totals.get(entity) ?? hits.length, hits };
+  }).filter((group) => group.hits.length > 0);
+
+  return { query: queryString, groups };
+}
@@ -0,0 +1,35 @@
+import type { SearchHit } from "~/components/types";
+
+import { DEFAULT_EFO_ID, diseasePath } from "./diseases";
+import { openTargetsDrugUrl } from "./drugs";
+import { targetPath } from "./targets";
+
+/** Entities searched, in the order their groups are listed. */
+export const SEARCH_ENTITIES = ["disease", "target", "drug"] as const;
+
+/** Shorter queries are not sent upstream. */
+export const MIN_SEARCH_LENGTH = 2;
+
+/**
+ * Trims, collapses whitespace and lower-cases a query, so that spellings
+ * differing only in those share a cache entry.
+ */
+export function normalizeSearchQuery(query: string) {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Where a hit leads: the disease or target page in the app (targets in the
+ * context of `efoId`), or the drug's Open Targets page, which has no
+ * counterpart here.
+ */
+export function searchHitHref(hit: SearchHit, efoId = DEFAULT_EFO_ID) {
+  switch (hit.entity) {
+    case "disease":
+      return { href: diseasePath(hit.id), external: false };
+    case "target":
+      return { href: targetPath(hit.id, { efoId }), external: false };
+    default:
+      return { href: openTargetsDrugUrl(hit.id), external: true };
+  }
+}
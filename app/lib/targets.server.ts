@@ -0,0 +1,108 @@
+import type { AssocRow, TargetXrefs } from "~/components/types";
+
+import { toAssocRow } from "./associations.server";
+import { DEFAULT_EFO_ID } from "./diseases";
+import {
+  allowPartialData,
+  DiseaseNotFoundError,
+  TargetNotFoundError,
+} from "./errors";
+import { getReleaseSdk } from "./graphql";
+import { parseAssociationParams } from "./params";
+import type { DataRelease } from "./release";
+import { formatGenomicLocation, toTargetXrefs } from "./targets";
+import { validateAssociationRows } from "./validation";
+
+/** A target and its association with the disease it was opened from. */
+export type TargetDetailData = {
+  target: {
+    id: string;
+    approvedSymbol: string;
+    approvedName: string;
+    biotype: string;
+    functionDescriptions: string[];
+    /** Formatted, e.g. `chr7:55,019,017–55,211,628 (+)`. */
+    genomicLocation: string;
+    synonyms: string[];
+    targetClass: { id: number; label: string; level: string }[];
+    subcellularLocations: { location: string; source: string }[];
+    xrefs: TargetXrefs;
+  };
+  disease: { id: string; name: string };
+  /** `null` when the target is not associated with the disease. */
+  association: AssocRow | null;
+  indirect: boolean;
+  /** Association table search params to return to (the `from` param). */
+  from: string | null;
+  warnings: string[];
+  release: DataRelease;
+};
+
+/**
+ * Loads the target page: target annotations plus its association with the
+ * `disease` search param (lung carcinoma by default), scored with the same
+ * direct/indirect setting as the table it was opened from.
+ */
+export async function loadTargetDetail(
+  ensemblId: string,
+  request: Request
+): Promise<TargetDetailData> {
+  const searchParams = new URL(request.url).searchParams;
+  const efoId = searchParams.get("disease") || DEFAULT_EFO_ID;
+  const from = searchParams.get("from");
+  const { indirect } = parseAssociationParams(new URLSearchParams(from ?? ""));
+
+  const { sdk, release } = await getReleaseSdk(request);
+  const { data: result, warnings } = await allowPartialData(
+    sdk.targetDetail({ ensemblId, efoId, enableIndirect: indirect })
+  );
+  if (!result.target) throw new TargetNotFoundError(ensemblId);
+  if (!result.disease) throw new DiseaseNotFoundError(efoId);
+
+  const { target } = result;
+  const validated = validateAssociationRows(
+    result.disease.associatedTargets.rows.filter(
+      (row) => row?.target?.id === ensemblId
+    ),
+    { operationName: "targetDetail" }
+  );
+  const [row] = validated.rows;
+
+  return {
+    target: {
+      id: target.id,
+      approvedSymbol: target.approvedSymbol,
+      approvedName: target.approvedName,
+      biotype: target.biotype,
+      functionDescriptions: target.functionDescriptions,
+      genomicLocation: formatGenomicLocation({
+        ...target.genomicLocation,
+        start: Number(target.genomicLocation.start),
+        end: Number(target.genomicLocation.end),
+      }),
+      synonyms: [...new Set(target.synonyms.map((s) => s.label))],
+      targetClass: target.targetClass.map(({ id, label, level }) => ({
+        id: Number(id),
+        label,
+        level,
+      })),
+      subcellularLocations: [
+        ...new Map(
+          target.subcellularLocations.map(({ location, source }) => [
+            location,
+            { location, source },
+          ])
+        ).values(),
+      ],
+      xrefs: toTargetXrefs(target.proteinIds, target.dbXrefs),
+    },
+    disease: { id: result.disease.id, name: result.disease.name },
+    association: row
+      ? toAssocRow(row, result.associationDatasources ?? [])
+      : null,
+    indirect,
+    from,
+    warnings,
+    release,
+  };
+}
@@ -0,0 +1,107 @@
+import type { TargetXrefs } from "~/components/types";
+
+import { diseasePath } from "./diseases";
+
+/**
+ * In-app target page for `ensemblId`, in the context of the disease `efoId`.
+ * `from` carries the association table's search params so the page can link
+ * back to the table exactly as it was (page, sort, weights, filters).
+ */
+export function targetPath(
+  ensemblId: string,
+  { efoId, from }: { efoId: string; from?: URLSearchParams }
+) {
+  const params = new URLSearchParams({ disease: efoId });
+  const state = from?.toString();
+  if (state) params.set("from", state);
+  return `/target/${encodeURIComponent(ensemblId)}?${params.toString()}`;
+}
+
+/** The association table a target page was opened from. */
+export function associationsPath(efoId: string, from: string | null) {
+  return from ? `${diseasePath(efoId)}?${from}` : diseasePath(efoId);
+}
+
+/** `chr7:55,019,017–55,211,628 (+)` */
+export function formatGenomicLocation({
+  chromosome,
+  start,
+  end,
+  strand,
+}: {
+  chromosome: string;
+  start: number;
+  end: number;
+  strand: number;
+}) {
+  const position = (n: number) => n.toLocaleString("en-US");
+  return `chr${chromosome}:${position(start)}–${position(end)} (${strand < 0 ? "−" : "+"})`;
+}
+
+type IdAndSource = { id: string; source: string };
+
+/**
+ * Picks the identifiers we link out to from a target's `proteinIds` and
+ * `dbXrefs`: its reviewed (Swiss-Prot) UniProt accession, falling back to an
+ * unreviewed one, and its HGNC id.
+ */
+export function toTargetXrefs(
+  proteinIds: IdAndSource[],
+  dbXrefs: IdAndSource[]
+): TargetXrefs {
+  const uniprot =
+    proteinIds.find((p) => p.source === "uniprot_swissprot") ??
+    proteinIds.find((p) => p.source === "uniprot_trembl");
+  const hgnc = dbXrefs.find((x) => x.source === "HGNC");
+  return {
+    uniprot: uniprot?.id,
+    hgnc: hgnc && (hgnc.id.startsWith("HGNC:") ? hgnc.id : `HGNC:${hgnc.id}`),
+  };
+}
+
+/** Open Targets Platform page of a target, keyed on its Ensembl gene id. */
+export function openTargetsUrl(ensemblId: string) {
+  return `https://platform.opentargets.org/target/${encodeURIComponent(ensemblId)}`;
+}
+
+export type TargetLinkOut = { label: string; href: string };
+
+/**
+ * External pages for a target: Open Targets and Ensembl from its gene id,
+ * UniProt and HGNC when it has those identifiers, and GeneCards from its
+ * symbol.
+ */
+export function targetLinkOuts({
+  id,
+  approvedSymbol,
+  xrefs,
+}: {
+  id: string;
+  approvedSymbol: string;
+  xrefs: TargetXrefs;
+}): TargetLinkOut[] {
+  const links: TargetLinkOut[] = [
+    { label: "Open Targets", href: openTargetsUrl(id) },
+    {
+      label: "Ensembl",
+      href: `https://www.ensembl.org/Homo_sapiens/Gene/Summary?g=${encodeURIComponent(id)}`,
+    },
+  ];
+  if (xrefs.uniprot) {
+    links.push({
+      label: "UniProt",
+      href: `https://www.uniprot.org/uniprotkb/${encodeURIComponent(xrefs.uniprot)}/entry`,
+    });
+  }
+  if (xrefs.hgnc) {
+    links.push({
+      label: "HGNC",
+      href: `https://www.genenames.org/data/gene-symbol-report/#!/hgnc_id/${xrefs.hgnc}`,
+    });
+  }
+  links.push({
+    label: "GeneCards",
+    href: `https://www.genecards.org/cgi-bin/carddisp.pl?gene=${encodeURIComponent(approvedSymbol)}`,
+  });
+  return links;
+}
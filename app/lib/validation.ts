@@ -0,0 +1,147 @@
+import { MalformedRowError, ResponseValidationError } from "./errors";
+
+/**
+ * `strict` fails the request on any violation; `lenient` (the default) drops
+ * the offending rows and logs a warning. Set with `RESPONSE_VALIDATION`.
+ */
+export type ValidationMode = "strict" | "lenient";
+
+export const validationMode: ValidationMode =
+  process.env.RESPONSE_VALIDATION === "strict" ? "strict" : "lenient";
+
+/** One value in an upstream response that breaks a rule we rely on. */
+export type Violation = {
+  /** Location in the response, e.g. `rows[3].datatypeScores[1].score`. */
+  path: string;
+  rule: string;
+  expected: string;
+  actual: unknown;
+};
+
+/** Ensembl gene ids: `ENSG00000146648`, or `ENSMUSG…` for other species. */
+export const ENSEMBL_GENE_ID = /^ENS[A-Z]*G\d{11}$/;
+
+/** Disease ids: `EFO_0001071`, `MONDO_0005097`, `Orphanet_1234`, `NCIT_C2926`. */
+export const DISEASE_ID = /^[A-Za-z]+_[A-Za-z0-9]+$/;
+
+function violation(
+  path: string,
+  rule: string,
+  expected: string,
+  actual: unknown
+): Violation {
+  return { path, rule, expected, actual };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function checkScore(value: unknown, path: string): Violation[] {
+  return typeof value === "number" && value >= 0 && value <= 1
+    ? []
+    : [violation(path, "score-range", "number in [0, 1]", value)];
+}
+
+function checkScoredComponents(value: unknown, path: string): Violation[] {
+  if (!Array.isArray(value)) {
+    return [violation(path, "type", "array", value)];
+  }
+  const violations: Violation[] = [];
+  const seen = new Set<string>();
+  value.forEach((component: unknown, i) => {
+    const at = `${path}[${i}]`;
+    if (!isRecord(component)) {
+      violations.push(violation(at, "type", "object", component));
+      return;
+    }
+    const { id, score } = component;
+    if (typeof id !== "string" || id === "") {
+      violations.push(
+        violation(`${at}.id`, "non-empty-id", "non-empty string", id)
+      );
+    } else if (seen.has(id)) {
+      violations.push(
+        violation(`${at}.id`, "unique-id", `id unique within ${path}`, id)
+      );
+    } else {
+      seen.add(id);
+    }
+    violations.push(...checkScore(score, `${at}.score`));
+  });
+  return violations;
+}
+
+/** Checks one `associatedTargets.rows` entry against what the loader uses. */
+export function checkAssociationRow(row: unknown, path: string): Violation[] {
+  if (!isRecord(row)) {
+    return [violation(path, "type", "object", row)];
+  }
+  const violations: Violation[] = [];
+  const target = row.target;
+  if (!isRecord(target)) {
+    violations.push(violation(`${path}.target`, "type", "object", target));
+  } else {
+    const { id, approvedSymbol } = target;
+    if (typeof id !== "string" || !ENSEMBL_GENE_ID.test(id)) {
+      violations.push(
+        violation(`${path}.target.id`, "ensembl-id", "Ensembl gene id", id)
+      );
+    }
+    if (typeof approvedSymbol !== "string" || approvedSymbol === "") {
+      violations.push(
+        violation(
+          `${path}.target.approvedSymbol`,
+          "non-empty-symbol",
+          "non-empty string",
+          approvedSymbol
+        )
+      );
+    }
+  }
+  violations.push(
+    ...checkScore(row.score, `${path}.score`),
+    ...checkScoredComponents(row.datatypeScores, `${path}.datatypeScores`),
+    ...checkScoredComponents(row.datasourceScores, `${path}.datasourceScores`)
+  );
+  return violations;
+}
+
+/**
+ * Validates association rows before they are mapped for the table. Every
+ * violation is logged as one structured line. In strict mode any violation
+ * throws {@link ResponseValidationError}; in lenient mode the offending rows
+ * are dropped and returned as {@link MalformedRowError}s.
+ */
+export function validateAssociationRows<T>(
+  rows: readonly (T | null)[],
+  {
+    operationName,
+    mode = validationMode,
+  }: { operationName: string; mode?: ValidationMode }
+): { rows: T[]; dropped: MalformedRowError[] } {
+  const valid: T[] = [];
+  const dropped: MalformedRowError[] = [];
+  rows.forEach((row, index) => {
+    const violations = checkAssociationRow(row, `rows[${index}]`);
+    if (violations.length === 0 && row !== null) valid.push(row);
+    else dropped.push(new MalformedRowError(index, violations));
+  });
+
+  const violations = dropped.flatMap((error) => error.violations);
+  if (violations.length > 0) {
+    console.warn(
+      JSON.stringify({
+        event: "response-validation",
+        operationName,
+        mode,
+        droppedRows: dropped.length,
+        violations,
+      })
+    );
+    if (mode === "strict") {
+      throw new ResponseValidationError(operationName, violations);
+    }
+  }
+  return { rows: valid, dropped };
+}
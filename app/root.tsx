@@ -5,8 +5,14 @@ import {
   Outlet,
   Scripts,
   ScrollRestoration,
+  useRouteLoaderData,
 } from "react-router";
 
+import ReleaseFooter from "~/components/ReleaseFooter";
+import SiteHeader from "~/components/SiteHeader";
+import type { RouteErrorData } from "~/lib/errors";
+import { loadRelease } from "~/lib/graphql";
+
 import type { Route } from "./+types/root";
 
 export const links: Route.LinksFunction = () => [
@@ -23,7 +29,20 @@ export const links: Route.LinksFunction = () => [
   },
 ];
 
+/**
+ * Looks up the data release for the footer. A failure here must not take
+ * the page down with it, so it only leaves the release unknown.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  try {
+    return { release: await loadRelease(request) };
+  } catch {
+    return { release: null };
+  }
+}
+
 export function Layout({ children }: { children: React.ReactNode }) {
+  const rootData = useRouteLoaderData<typeof loader>("root");
   return (
     <html lang="en">
       <head>
@@ -33,7 +52,9 @@ export function Layout({ children }: { children: React.ReactNode }) {
         <Links />
       </head>
       <body>
+        <SiteHeader />
         {children}
+        <ReleaseFooter release={rootData?.release ?? null} />
         <ScrollRestoration />
         <Scripts />
       </body>
@@ -50,7 +71,12 @@ export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
   let details = "An unexpected error occurred.";
   let stack: string | undefined;
 
-  if (isRouteErrorResponse(error)) {
+  if (isRouteErrorResponse(error) && error.status === 503) {
+    message = "Upstream unavailable";
+    details =
+      (error.data as RouteErrorData | undefined)?.message ??
+      "The Open Targets API is not responding. Please try again later.";
+  } else if (isRouteErrorResponse(error)) {
     message = error.status === 404 ? "404" : "Error";
     details =
       error.status === 404
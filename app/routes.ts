@@ -1,3 +1,22 @@
-import { index,type RouteConfig } from "@react-router/dev/routes";
+import { index, route, type RouteConfig } from "@react-router/dev/routes";
 
-export default [index("routes/home.tsx")] satisfies RouteConfig;
+export default [
+  index("routes/index.ts"),
+  route("disease/:efoId", "routes/home.tsx"),
+  route("target/:ensemblId", "routes/target.tsx"),
+  route("compare", "routes/compare.tsx"),
+  route("compare/diseases", "routes/compare.diseases.tsx"),
+  route("api/facets", "routes/api.facets.ts"),
+  route("api/search", "routes/api.search.ts"),
+  route(
+    "api/diseases/:efoId/associations",
+    "routes/api.associations.ts"
+  ),
+  route("api/diseases/:efoId/export", "routes/api.export.ts"),
+  route(
+    "api/diseases/:efoId/known-drugs",
+    "routes/api.known-drugs.ts"
+  ),
+  route("api/diseases/:efoId/literature", "routes/api.literature.ts"),
+  route("api/diseases/:efoId/ontology", "routes/api.ontology.ts"),
+] satisfies RouteConfig;
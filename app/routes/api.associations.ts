@@ -0,0 +1,54 @@
+import { loadAssociations, pickDatatypes } from "~/lib/associations.server";
+import { isDatatypeId } from "~/lib/datatypes";
+import {
+  cacheControlHeader,
+  conditionalJson,
+  jsonError,
+} from "~/lib/http.server";
+
+import type { Route } from "./+types/api.associations";
+
+/**
+ * The disease page's associations as JSON, for notebooks and other tools,
+ * e.g. `/api/diseases/EFO_0001071/associations?page=2&size=25&sort=known_drug`.
+ *
+ * Accepts the same search params as the page (`page`, `size`, `sort`, `dir`,
+ * `w`, `req`, `evidence`, `q`, `facet`) plus `datatypes=known_drug,literature`
+ * to return only those datatype scores. Responses carry an ETag and honour
+ * `If-None-Match`; errors come back as `{ error: { kind, message } }`.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const datatypes = (new URL(request.url).searchParams.get("datatypes") ?? "")
+    .split(",")
+    .filter(Boolean);
+  const unknown = datatypes.filter((d) => !isDatatypeId(d));
+  if (unknown.length > 0) {
+    return Response.json(
+      {
+        error: {
+          kind: "bad-request",
+          message: `Unknown datatypes: ${unknown.join(", ")}`,
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  let associations;
+  try {
+    associations = await loadAssociations(params.efoId, request);
+  } catch (error) {
+    return jsonError(error);
+  }
+
+  return conditionalJson(
+    request,
+    {
+      ...associations,
+      rows: pickDatatypes(associations.rows, datatypes),
+    },
+    {
+      "Cache-Control": cacheControlHeader(),
+    }
+  );
+}
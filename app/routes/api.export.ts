@@ -0,0 +1,71 @@
+import {
+  loadAllAssociations,
+  loadAssociations,
+} from "~/lib/associations.server";
+import {
+  EXPORT_CONTENT_TYPES,
+  exportFilename,
+  isExportFormat,
+  MAX_EXPORT_ROWS,
+  toDelimited,
+} from "~/lib/export";
+import { jsonError } from "~/lib/http.server";
+import { describeRelease } from "~/lib/release";
+
+import type { Route } from "./+types/api.export";
+
+/**
+ * Association table download, e.g.
+ * `/api/diseases/EFO_0001071/export?format=tsv&scope=all&sort=known_drug`.
+ *
+ * `format` is `csv` (default) or `tsv`; `scope=page` (default) exports the
+ * page selected by `page`/`size`, `scope=all` every matching row up to
+ * {@link MAX_EXPORT_ROWS}. Sort, weights, evidence and filters use the same
+ * search params as the page.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const format = searchParams.get("format") ?? "csv";
+  if (!isExportFormat(format)) {
+    return new Response(`Unknown export format: ${format}`, { status: 400 });
+  }
+  const all = searchParams.get("scope") === "all";
+
+  let associations;
+  try {
+    associations = all
+      ? await loadAllAssociations(params.efoId, request, MAX_EXPORT_ROWS)
+      : await loadAssociations(params.efoId, request);
+  } catch (error) {
+    return jsonError(error);
+  }
+
+  const { disease, rows, pagination, release } = associations;
+  const from = all ? 1 : pagination.pageIndex * pagination.pageSize + 1;
+  const comments = [
+    `disease: ${disease.id} (${disease.name})`,
+    `data release: ${describeRelease(release)}`,
+    `exported: ${new Date().toISOString()}`,
+    rows.length > 0
+      ? `rows: ${from}-${from + rows.length - 1} of ${pagination.count}`
+      : `rows: 0 of ${pagination.count}`,
+  ];
+  if (all && pagination.count > rows.length) {
+    comments.push(`truncated to the first ${MAX_EXPORT_ROWS} rows`);
+  }
+  if (associations.droppedRows > 0) {
+    comments.push(`${associations.droppedRows} malformed rows left out`);
+  }
+  const filters = new URLSearchParams(searchParams);
+  for (const key of ["format", "scope", "page", "size"]) filters.delete(key);
+  if (filters.size > 0) comments.push(`parameters: ${filters.toString()}`);
+
+  const filename = exportFilename(disease.name, release.dataVersion, format);
+  return new Response(toDelimited(rows, format, comments), {
+    headers: {
+      "Content-Type": EXPORT_CONTENT_TYPES[format],
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
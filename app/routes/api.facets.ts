@@ -0,0 +1,52 @@
+import { TARGET_FACET_CATEGORIES } from "~/lib/facets";
+import { getReleaseSdk } from "~/lib/graphql";
+import { cacheControlHeader, jsonError } from "~/lib/http.server";
+
+import type { Route } from "./+types/api.facets";
+
+/**
+ * Target facet suggestions for the association filter, e.g.
+ * `/api/facets?category=Target%20Class&q=kin`. Errors come back as
+ * `{ error: { kind, message } }`, like the other resource routes.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const url = new URL(request.url);
+  const category = url.searchParams.get("category") ?? "";
+  if (!(TARGET_FACET_CATEGORIES as readonly string[]).includes(category)) {
+    return Response.json(
+      {
+        error: {
+          kind: "bad-request",
+          message: `Unknown facet category: ${category}`,
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  let result;
+  try {
+    const { sdk } = await getReleaseSdk(request);
+    result = await sdk.targetFacets({
+      category,
+      queryString: url.searchParams.get("q")?.trim() || undefined,
+    });
+  } catch (error) {
+    return jsonError(error);
+  }
+
+  return Response.json(
+    {
+      facets: result.facets.hits.map(({ id, label, category }) => ({
+        id,
+        label,
+        category,
+      })),
+    },
+    {
+      headers: {
+        "Cache-Control": cacheControlHeader(),
+      },
+    }
+  );
+}
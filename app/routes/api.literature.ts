@@ -0,0 +1,45 @@
+import { cacheControlHeader, jsonError } from "~/lib/http.server";
+import { loadLiterature } from "~/lib/literature.server";
+import { ENSEMBL_GENE_ID } from "~/lib/validation";
+
+import type { Route } from "./+types/api.literature";
+
+/**
+ * Publications co-mentioning a target and a disease, a cursor page at a
+ * time, e.g. `/api/diseases/EFO_0001071/literature?target=ENSG00000146648`.
+ * The first page (no `cursor`) also has the per-year `timeline`. Loaded by
+ * the association table's literature tab when it is opened.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const searchParams = new URL(request.url).searchParams;
+  const target = searchParams.get("target") ?? "";
+  if (!ENSEMBL_GENE_ID.test(target)) {
+    return Response.json(
+      {
+        error: {
+          kind: "bad-request",
+          message: "`target` must be an Ensembl gene id",
+        },
+      },
+      { status: 400 }
+    );
+  }
+
+  let page;
+  try {
+    page = await loadLiterature(
+      params.efoId,
+      target,
+      request,
+      searchParams.get("cursor")
+    );
+  } catch (error) {
+    return jsonError(error);
+  }
+
+  return Response.json(page, {
+    headers: {
+      "Cache-Control": cacheControlHeader(),
+    },
+  });
+}
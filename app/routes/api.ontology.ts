@@ -0,0 +1,24 @@
+import { cacheControlHeader, jsonError } from "~/lib/http.server";
+import { loadDiseaseOntology } from "~/lib/ontology.server";
+
+import type { Route } from "./+types/api.ontology";
+
+/**
+ * A disease's therapeutic areas, parents and children in the EFO hierarchy,
+ * e.g. `/api/diseases/EFO_0001071/ontology`. Loaded by the ontology panel
+ * when it is opened, and again for each child term expanded in its tree.
+ */
+export async function loader({ params, request }: Route.LoaderArgs) {
+  let ontology;
+  try {
+    ontology = await loadDiseaseOntology(params.efoId, request);
+  } catch (error) {
+    return jsonError(error);
+  }
+
+  return Response.json(ontology, {
+    headers: {
+      "Cache-Control": cacheControlHeader(),
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import { cacheControlHeader, jsonError } from "~/lib/http.server";
+import { searchEntities } from "~/lib/search.server";
+
+import type { Route } from "./+types/api.search";
+
+/**
+ * Diseases, targets and drugs matching `q`, grouped by entity, for the
+ * search bar, e.g. `/api/search?q=lung`. Queries shorter than two
+ * characters return no groups without calling Open Targets.
+ */
+export async function loader({ request }: Route.LoaderArgs) {
+  const query = new URL(request.url).searchParams.get("q") ?? "";
+
+  let results;
+  try {
+    results = await searchEntities(query, request);
+  } catch (error) {
+    return jsonError(error);
+  }
+
+  return Response.json(results, {
+    headers: {
+      "Cache-Control": cacheControlHeader(),
+    },
+  });
+}
@@ -0,0 +1,196 @@
+import { ArrowBack } from "@mui/icons-material";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { useMemo, useState } from "react";
+import { Link as RouterLink, useLoaderData, useNavigate } from "react-router";
+
+import MergedTargetsTable from "~/components/MergedTargetsTable";
+import RouteErrorPage from "~/components/RouteErrorPage";
+import UpSetChart from "~/components/UpSetChart";
+import {
+  diseaseComparePath,
+  listNames,
+  MAX_COMPARE_DISEASES,
+  MIN_COMPARE_DISEASES,
+} from "~/lib/compare";
+import {
+  type DiseaseComparisonData,
+  loadDiseaseComparison,
+} from "~/lib/compare.server";
+import { DEFAULT_EFO_ID, diseasePath } from "~/lib/diseases";
+import { rethrowAsRouteError } from "~/lib/errors";
+import { intersectionKey, targetSets } from "~/lib/overlap";
+import { releaseMeta } from "~/lib/release";
+
+import type { Route } from "./+types/compare.diseases";
+
+const styles = {
+  chips: { flexWrap: "wrap" as const, gap: 1 },
+  panel: { borderRadius: 0, p: 3, mb: 2 },
+};
+
+export function meta({ loaderData }: Route.MetaArgs) {
+  if (!loaderData?.diseases.length) {
+    return [{ title: "Lung Carcinoma insights — Compare diseases" }];
+  }
+  const names = listNames(loaderData.diseases.map((d) => d.name));
+  return [
+    { title: `Lung Carcinoma insights — Compare ${names}` },
+    {
+      name: "description",
+      content: `Targets shared between and unique to ${names}`,
+    },
+    ...releaseMeta(loaderData.release),
+  ];
+}
+
+export async function loader({
+  request,
+}: Route.LoaderArgs): Promise<DiseaseComparisonData> {
+  try {
+    return await loadDiseaseComparison(request);
+  } catch (error) {
+    rethrowAsRouteError(error);
+  }
+}
+
+export default function CompareDiseasesPage() {
+  const { diseases, targets, intersections, size, indirect, warnings } =
+    useLoaderData<DiseaseComparisonData>();
+  const navigate = useNavigate();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const sets = useMemo(
+    () =>
+      diseases.map((disease, i) => ({
+        label: disease.name,
+        size: targets.filter((t) => t.scores[i] != null).length,
+      })),
+    [diseases, targets]
+  );
+  // A key left over from other diseases matches nothing and shows all
+  const selection = intersections.find(
+    (d) => intersectionKey(d.sets) === selected
+  );
+  const shown = useMemo(
+    () =>
+      selection
+        ? targets.filter((t) => intersectionKey(targetSets(t)) === selected)
+        : targets,
+    [targets, selection, selected]
+  );
+  const names = listNames(diseases.map((d) => d.name));
+  const summary = selection
+    ? `${selection.count} ${selection.count === 1 ? "target" : "targets"} associated with ${listNames(selection.sets.map((i) => diseases[i].name))} only`
+    : `${targets.length} targets associated with any of the diseases`;
+  const home = diseases[0] ?? { id: DEFAULT_EFO_ID, name: "lung carcinoma" };
+
+  return (
+    <Box px="10%" mb={20}>
+      <Box my={2}>
+        <Button
+          component={RouterLink}
+          to={diseasePath(home.id)}
+          startIcon={<ArrowBack />}
+        >
+          Back to {home.name} associations
+        </Button>
+      </Box>
+
+      <Box mb={2}>
+        <Typography variant="h3" component="h2">
+          {diseases.length > 0 ? `Comparing ${names}` : "Compare diseases"}
+        </Typography>
+        {diseases.length > 0 && (
+          <Typography variant="h6" color="text.secondary">
+            Top {size} associated targets of each disease, scored in all of
+            them
+            {!indirect && " (direct evidence only)"}
+          </Typography>
+        )}
+        <Stack direction="row" sx={styles.chips} mt={1}>
+          {diseases.map((disease) => (
+            <Chip
+              key={disease.id}
+              size="small"
+              clickable
+              component={RouterLink}
+              to={diseasePath(disease.id)}
+              label={`${disease.name} · ${disease.count.toLocaleString()} targets`}
+              onDelete={
+                diseases.length > MIN_COMPARE_DISEASES
+                  ? () =>
+                      void navigate(
+                        diseaseComparePath(
+                          diseases
+                            .filter((d) => d.id !== disease.id)
+                            .map((d) => d.id)
+                        )
+                      )
+                  : undefined
+              }
+            />
+          ))}
+        </Stack>
+      </Box>
+
+      {warnings.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {warnings.join("; ")}
+        </Alert>
+      )}
+
+      {diseases.length === 0 ? (
+        <Typography color="text.secondary">
+          Tick up to {MAX_COMPARE_DISEASES - 1} subterms in a disease&apos;s
+          ontology panel, then choose Compare targets.
+        </Typography>
+      ) : (
+        <>
+          <Paper variant="outlined" sx={styles.panel}>
+            <UpSetChart
+              sets={sets}
+              intersections={intersections}
+              title={`Shared targets: ${names}`}
+              selectedKey={selected}
+              onSelect={(key) => setSelected((k) => (k === key ? null : key))}
+            />
+          </Paper>
+          <Stack direction="row" spacing={2} alignItems="center" mb={1}>
+            <Typography variant="body2" color="text.secondary" flexGrow={1}>
+              {summary}
+            </Typography>
+            {selection && (
+              <Button size="small" onClick={() => setSelected(null)}>
+                Show all targets
+              </Button>
+            )}
+          </Stack>
+          {/* Keyed so that paging starts over for another intersection */}
+          <MergedTargetsTable
+            key={selection ? selected : "all"}
+            diseases={diseases}
+            targets={shown}
+          />
+        </>
+      )}
+    </Box>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return (
+    <RouteErrorPage
+      error={error}
+      notFoundTitle="Disease not found"
+      fallbackMessage="An unexpected error occurred while comparing the diseases."
+    />
+  );
+}
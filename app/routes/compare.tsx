@@ -0,0 +1,163 @@
+import { ArrowBack } from "@mui/icons-material";
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Paper,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import { useMemo, useState } from "react";
+import { Link as RouterLink, useLoaderData } from "react-router";
+
+import BarChart from "~/components/BarChart";
+import RadarChart from "~/components/RadarChart";
+import RouteErrorPage from "~/components/RouteErrorPage";
+import { listNames, MAX_COMPARE_TARGETS } from "~/lib/compare";
+import {
+  loadTargetComparison,
+  type TargetComparisonData,
+} from "~/lib/compare.server";
+import { rethrowAsRouteError } from "~/lib/errors";
+import { releaseMeta } from "~/lib/release";
+import { associationsPath, targetPath } from "~/lib/targets";
+
+import type { Route } from "./+types/compare";
+
+const styles = {
+  chips: { flexWrap: "wrap" as const, gap: 1 },
+  panel: { borderRadius: 0, p: 3 },
+};
+
+export function meta({ loaderData }: Route.MetaArgs) {
+  if (!loaderData) return [{ title: "Lung Carcinoma insights — Compare targets" }];
+  const { targets, disease } = loaderData;
+  const symbols = listNames(targets.map((t) => t.approvedSymbol));
+  return [
+    { title: `Lung Carcinoma insights — Compare ${symbols} in ${disease.name}` },
+    {
+      name: "description",
+      content: `Datatype scores of ${symbols} for ${disease.name}, side by side`,
+    },
+    ...releaseMeta(loaderData.release),
+  ];
+}
+
+export async function loader({
+  request,
+}: Route.LoaderArgs): Promise<TargetComparisonData> {
+  try {
+    return await loadTargetComparison(request);
+  } catch (error) {
+    rethrowAsRouteError(error);
+  }
+}
+
+export default function ComparePage() {
+  const { disease, targets, missingIds, indirect, from, warnings } =
+    useLoaderData<TargetComparisonData>();
+  const [chart, setChart] = useState<"radar" | "bar">("radar");
+
+  const series = useMemo(
+    () =>
+      targets.map((t) => ({
+        id: t.id,
+        label: t.approvedSymbol,
+        items: t.datatypeScores,
+      })),
+    [targets]
+  );
+  const symbols = listNames(targets.map((t) => t.approvedSymbol));
+  const chartTitle = `Data Type Scores: ${symbols} in ${disease.name}`;
+  const fromParams = new URLSearchParams(from ?? "");
+
+  return (
+    <Box px="10%" mb={20}>
+      <Box my={2}>
+        <Button
+          component={RouterLink}
+          to={associationsPath(disease.id, from)}
+          startIcon={<ArrowBack />}
+        >
+          Back to {disease.name} associations
+        </Button>
+      </Box>
+
+      <Box mb={2}>
+        <Typography variant="h3" component="h2">
+          {targets.length > 0 ? `Comparing ${symbols}` : "Compare targets"}
+        </Typography>
+        <Typography variant="h6" color="text.secondary">
+          Association with {disease.name}
+          {!indirect && " (direct evidence only)"}
+        </Typography>
+        <Stack direction="row" sx={styles.chips} mt={1}>
+          {targets.map((t) => (
+            <Chip
+              key={t.id}
+              size="small"
+              clickable
+              component={RouterLink}
+              to={targetPath(t.id, { efoId: disease.id, from: fromParams })}
+              label={`${t.approvedSymbol} · ${t.score.toFixed(3)}`}
+            />
+          ))}
+        </Stack>
+      </Box>
+
+      {warnings.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {warnings.join("; ")}
+        </Alert>
+      )}
+      {missingIds.length > 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Not associated with {disease.name}
+          {indirect ? "" : " through direct evidence"}: {missingIds.join(", ")}
+        </Alert>
+      )}
+
+      {targets.length === 0 ? (
+        <Typography color="text.secondary">
+          Tick up to {MAX_COMPARE_TARGETS} targets in the association table,
+          then choose Compare.
+        </Typography>
+      ) : (
+        <Paper variant="outlined" sx={styles.panel}>
+          <Stack direction="row" justifyContent="flex-end" mb={2}>
+            <ToggleButtonGroup
+              exclusive
+              size="small"
+              value={chart}
+              onChange={(_, value: "radar" | "bar" | null) =>
+                value && setChart(value)
+              }
+              aria-label="Chart type"
+            >
+              <ToggleButton value="radar">Radar chart</ToggleButton>
+              <ToggleButton value="bar">Bar chart</ToggleButton>
+            </ToggleButtonGroup>
+          </Stack>
+          {chart === "radar" ? (
+            <RadarChart series={series} title={chartTitle} />
+          ) : (
+            <BarChart series={series} title={chartTitle} />
+          )}
+        </Paper>
+      )}
+    </Box>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return (
+    <RouteErrorPage
+      error={error}
+      notFoundTitle="Disease not found"
+      fallbackMessage="An unexpected error occurred while comparing the targets."
+    />
+  );
+}
@@ -1,56 +1,278 @@
-import { Box, Typography } from "@mui/material";
-import { useLoaderData } from "react-router";
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import { useCallback, useState } from "react";
+import { useLoaderData, useSearchParams } from "react-router";
 
+import AssociationHeatmap from "~/components/AssociationHeatmap";
 import AssociationTable from "~/components/AssociationTable";
-import type { AssocRow } from "~/components/types";
-import { getSdk } from "~/graphql/generated";
-import { getClient } from "~/lib/graphql";
+import DatasourceWeightsPanel from "~/components/DatasourceWeightsPanel";
+import DiseaseOntologyPanel from "~/components/DiseaseOntologyPanel";
+import RouteErrorPage from "~/components/RouteErrorPage";
+import TargetFilterBar from "~/components/TargetFilterBar";
+import {
+  type AssociationData,
+  loadAssociations,
+} from "~/lib/associations.server";
+import { comparePath, MAX_COMPARE_TARGETS } from "~/lib/compare";
+import { rethrowAsRouteError } from "~/lib/errors";
+import { withAssociationParams } from "~/lib/params";
+import { releaseMeta } from "~/lib/release";
+import { targetPath } from "~/lib/targets";
 
-export function meta() {
+import type { Route } from "./+types/home";
+
+/** "Top 10 Genes" on the first page, "Genes 11–20" after that. */
+function describeRange(pageIndex: number, pageSize: number, shown: number) {
+  if (shown === 0) return "No Genes";
+  if (pageIndex === 0) return `Top ${shown} Genes`;
+  const from = pageIndex * pageSize + 1;
+  return `Genes ${from}–${from + shown - 1}`;
+}
+
+export function meta({ loaderData }: Route.MetaArgs) {
+  const name = loaderData?.disease.name ?? "disease";
+  const range = loaderData
+    ? describeRange(
+        loaderData.pagination.pageIndex,
+        loaderData.pagination.pageSize,
+        loaderData.rows.length
+      )
+    : "Top Genes";
   return [
-    { title: "Lung Carcinoma insights — Top targets for lung carcinoma" },
+    { title: `Lung Carcinoma insights — Top targets for ${name}` },
     {
       name: "description",
-      content:
-        "Top 10 targets with highest overall association score for lung carcinoma",
+      content: `${range} with highest overall association score for ${name}`,
     },
+    ...releaseMeta(loaderData?.release),
   ];
 }
 
-type LoaderData = { rows: AssocRow[] };
-
-export async function loader(): Promise<LoaderData> {
-  const sdk = getSdk(getClient());
-  const data = await sdk.lungCarcinomaAssociatedTargets();
-
-  const rows = (data.disease?.associatedTargets?.rows ?? [])
-    .map((r) => ({
-      id: r?.target?.id ?? "",
-      approvedSymbol: r?.target?.approvedSymbol ?? "",
-      approvedName: r?.target?.approvedName ?? "",
-      score: r?.score ?? 0,
-      datatypeScores: (r?.datatypeScores ?? []).map((d) => ({
-        id: d?.id ?? "",
-        score: d?.score ?? 0,
-      })),
-    }))
-    .sort((a, b) => b.score - a.score)
-    .slice(0, 10);
-
-  return { rows };
+export async function loader({
+  params,
+  request,
+}: Route.LoaderArgs): Promise<AssociationData> {
+  try {
+    return await loadAssociations(params.efoId, request);
+  } catch (error) {
+    rethrowAsRouteError(error);
+  }
 }
 
 export default function Home() {
-  const { rows } = useLoaderData<LoaderData>();
+  const {
+    disease,
+    rows,
+    pagination,
+    sort,
+    datasources,
+    rankMovement,
+    indirect,
+    indirectOnlyIds,
+    filters,
+    warnings,
+    droppedRows,
+  } = useLoaderData<AssociationData>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Targets ticked for comparison, kept across pages of the same disease
+  const [selection, setSelection] = useState<{ efoId: string; ids: string[] }>({
+    efoId: disease.id,
+    ids: [],
+  });
+  const selectedIds = selection.efoId === disease.id ? selection.ids : [];
+  const [view, setView] = useState<"table" | "heatmap">("table");
+  // Row to open when the table comes back from the heatmap
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const onQueryChange = useCallback(
+    (query: string) =>
+      setSearchParams(
+        withAssociationParams(searchParams, { query, pageIndex: 0 })
+      ),
+    [searchParams, setSearchParams]
+  );
+
+  const onHeatmapSelect = useCallback((id: string) => {
+    setOpenId(id);
+    setView("table");
+  }, []);
+
   return (
     <Box px="10%" mb={20}>
       <Box my={2}>
         <Typography variant="h3" component="h2">
-          Top 10 Genes associated with lung carcinoma
+          {describeRange(pagination.pageIndex, pagination.pageSize, rows.length)}{" "}
+          associated with {disease.name}
         </Typography>
       </Box>
 
-      <AssociationTable rows={rows} />
+      {(warnings.length > 0 || droppedRows > 0) && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          <AlertTitle>Some association data could not be loaded</AlertTitle>
+          {droppedRows > 0 && (
+            <Typography variant="body2">
+              {droppedRows} {droppedRows === 1 ? "row was" : "rows were"} left
+              out because of incomplete data.
+            </Typography>
+          )}
+          {warnings.map((warning) => (
+            <Typography key={warning} variant="body2">
+              {warning}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+
+      <DiseaseOntologyPanel
+        efoId={disease.id}
+        diseaseName={disease.name}
+        href={(efoId) => `/api/diseases/${encodeURIComponent(efoId)}/ontology`}
+      />
+
+      <DatasourceWeightsPanel
+        key={`${searchParams.get("w")}|${searchParams.get("req")}`}
+        {...datasources}
+        onApply={(weights, required) =>
+          setSearchParams(
+            withAssociationParams(searchParams, {
+              weights,
+              required,
+              pageIndex: 0,
+            })
+          )
+        }
+      />
+
+      <TargetFilterBar
+        {...filters}
+        onQueryChange={onQueryChange}
+        onFacetsChange={(facets) =>
+          setSearchParams(
+            withAssociationParams(searchParams, { facets, pageIndex: 0 })
+          )
+        }
+      />
+
+      <Stack direction="row" alignItems="center" spacing={2} mb={2}>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          color="primary"
+          value={indirect ? "indirect" : "direct"}
+          onChange={(_, value: "direct" | "indirect" | null) => {
+            if (!value) return;
+            setSearchParams(
+              withAssociationParams(searchParams, {
+                indirect: value === "indirect",
+                pageIndex: 0,
+              })
+            );
+          }}
+          aria-label="Association evidence"
+        >
+          <ToggleButton value="direct">Direct</ToggleButton>
+          <ToggleButton value="indirect">Indirect</ToggleButton>
+        </ToggleButtonGroup>
+        <Typography variant="body2" color="text.secondary" flexGrow={1}>
+          {indirect
+            ? `Including evidence on terms descending from ${disease.name}`
+            : `Only evidence annotated to ${disease.name} itself`}
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          color="primary"
+          value={view}
+          onChange={(_, value: "table" | "heatmap" | null) => {
+            if (!value) return;
+            setOpenId(null);
+            setView(value);
+          }}
+          aria-label="View"
+        >
+          <ToggleButton value="table">Table</ToggleButton>
+          <ToggleButton value="heatmap">Heatmap</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      {view === "heatmap" ? (
+        <AssociationHeatmap
+          rows={rows}
+          diseaseName={disease.name}
+          onSelect={onHeatmapSelect}
+        />
+      ) : (
+        <AssociationTable
+          rows={rows}
+          diseaseName={disease.name}
+          rankMovement={rankMovement}
+          indirectOnlyIds={indirectOnlyIds}
+          targetHref={(row) =>
+            targetPath(row.id, { efoId: disease.id, from: searchParams })
+          }
+          exportHref={(format, scope) => {
+            const params = new URLSearchParams(searchParams);
+            params.set("format", format);
+            params.set("scope", scope);
+            return `/api/diseases/${encodeURIComponent(disease.id)}/export?${params.toString()}`;
+          }}
+          knownDrugsHref={(row, cursor) => {
+            const params = new URLSearchParams({ target: row.id });
+            if (cursor) params.set("cursor", cursor);
+            return `/api/diseases/${encodeURIComponent(disease.id)}/known-drugs?${params.toString()}`;
+          }}
+          literatureHref={(row, cursor) => {
+            const params = new URLSearchParams({ target: row.id });
+            if (cursor) params.set("cursor", cursor);
+            return `/api/diseases/${encodeURIComponent(disease.id)}/literature?${params.toString()}`;
+          }}
+          selection={{
+            selectedIds,
+            max: MAX_COMPARE_TARGETS,
+            onChange: (ids) => setSelection({ efoId: disease.id, ids }),
+            compareHref: (ids) =>
+              comparePath(ids, { efoId: disease.id, from: searchParams }),
+          }}
+          pagination={{
+            ...pagination,
+            onPageChange: (pageIndex) =>
+              setSearchParams(withAssociationParams(searchParams, { pageIndex })),
+            onPageSizeChange: (pageSize) =>
+              setSearchParams(
+                withAssociationParams(searchParams, { pageSize, pageIndex: 0 })
+              ),
+          }}
+          sort={{
+            ...sort,
+            onSortChange: (sortBy, sortDirection) =>
+              setSearchParams(
+                withAssociationParams(searchParams, {
+                  sortBy,
+                  sortDirection,
+                  pageIndex: 0,
+                })
+              ),
+          }}
+          initialOpenId={openId}
+        />
+      )}
     </Box>
   );
 }
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return (
+    <RouteErrorPage
+      error={error}
+      notFoundTitle="Disease not found"
+      fallbackMessage="An unexpected error occurred while loading the associations."
+    />
+  );
+}
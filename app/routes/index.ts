@@ -0,0 +1,7 @@
+import { redirect } from "react-router";
+
+import { DEFAULT_EFO_ID, diseasePath } from "~/lib/diseases";
+
+export function loader() {
+  return redirect(diseasePath(DEFAULT_EFO_ID));
+}
@@ -0,0 +1,281 @@
+import { ArrowBack, OpenInNew } from "@mui/icons-material";
+import {
+  Alert,
+  Box,
+  Breadcrumbs,
+  Button,
+  Chip,
+  Link,
+  Paper,
+  Stack,
+  Tab,
+  Tabs,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+import { Link as RouterLink, useLoaderData } from "react-router";
+
+import BarChart from "~/components/BarChart";
+import RadarChart from "~/components/RadarChart";
+import RouteErrorPage from "~/components/RouteErrorPage";
+import { rethrowAsRouteError } from "~/lib/errors";
+import { formatLabel } from "~/lib/labels";
+import { releaseMeta } from "~/lib/release";
+import { associationsPath, targetLinkOuts } from "~/lib/targets";
+import {
+  loadTargetDetail,
+  type TargetDetailData,
+} from "~/lib/targets.server";
+
+import type { Route } from "./+types/target";
+
+const styles = {
+  section: { mb: 3 },
+  chips: { flexWrap: "wrap" as const, gap: 1 },
+  panel: { borderRadius: 0, p: 3 },
+  score: { fontVariantNumeric: "tabular-nums" as const },
+};
+
+export function meta({ loaderData }: Route.MetaArgs) {
+  if (!loaderData) return [{ title: "Lung Carcinoma insights — Target" }];
+  const { target, disease } = loaderData;
+  return [
+    {
+      title: `Lung Carcinoma insights — ${target.approvedSymbol} and ${disease.name}`,
+    },
+    {
+      name: "description",
+      content: `${target.approvedSymbol} (${target.approvedName}): annotations and association with ${disease.name}`,
+    },
+    ...releaseMeta(loaderData.release),
+  ];
+}
+
+export async function loader({
+  params,
+  request,
+}: Route.LoaderArgs): Promise<TargetDetailData> {
+  try {
+    return await loadTargetDetail(params.ensemblId, request);
+  } catch (error) {
+    rethrowAsRouteError(error);
+  }
+}
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Box sx={styles.section}>
+      <Typography variant="h6" component="h3" gutterBottom>
+        {title}
+      </Typography>
+      {children}
+    </Box>
+  );
+}
+
+export default function TargetPage() {
+  const { target, disease, association, indirect, from, warnings } =
+    useLoaderData<TargetDetailData>();
+  const [tab, setTab] = useState(0);
+  const [chart, setChart] = useState<"bar" | "radar">("bar");
+  const [drilled, setDrilled] = useState<string | null>(null);
+
+  const chartTitle = `Data Type Scores: ${target.approvedSymbol} and ${disease.name}`;
+
+  return (
+    <Box px="10%" mb={20}>
+      <Box my={2}>
+        <Button
+          component={RouterLink}
+          to={associationsPath(disease.id, from)}
+          startIcon={<ArrowBack />}
+        >
+          Back to {disease.name} associations
+        </Button>
+      </Box>
+
+      <Box mb={2}>
+        <Typography variant="h3" component="h2">
+          {target.approvedSymbol}
+        </Typography>
+        <Typography variant="h6" color="text.secondary">
+          {target.approvedName}
+        </Typography>
+        <Stack direction="row" spacing={1} mt={1}>
+          <Chip size="small" label={target.id} />
+          <Chip size="small" label={formatLabel(target.biotype)} />
+          <Chip size="small" label={target.genomicLocation} />
+        </Stack>
+        <Stack direction="row" sx={styles.chips} mt={1}>
+          {targetLinkOuts(target).map(({ label, href }) => (
+            <Button
+              key={label}
+              size="small"
+              href={href}
+              target="_blank"
+              rel="noreferrer"
+              endIcon={<OpenInNew />}
+            >
+              {label}
+            </Button>
+          ))}
+        </Stack>
+      </Box>
+
+      {warnings.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {warnings.join("; ")}
+        </Alert>
+      )}
+
+      <Tabs value={tab} onChange={(_, value: number) => setTab(value)}>
+        <Tab label="Overview" />
+        <Tab label={`Association with ${disease.name}`} />
+      </Tabs>
+
+      <Paper variant="outlined" sx={styles.panel}>
+        {tab === 0 ? (
+          <>
+            <Section title="Function">
+              {target.functionDescriptions.length > 0 ? (
+                target.functionDescriptions.map((description) => (
+                  <Typography key={description} variant="body2" paragraph>
+                    {description}
+                  </Typography>
+                ))
+              ) : (
+                <Typography color="text.secondary">
+                  No function description.
+                </Typography>
+              )}
+            </Section>
+            <Section title="Synonyms">
+              <Stack direction="row" sx={styles.chips}>
+                {target.synonyms.map((synonym) => (
+                  <Chip key={synonym} size="small" variant="outlined" label={synonym} />
+                ))}
+              </Stack>
+            </Section>
+            <Section title="Target class">
+              {target.targetClass.length > 0 ? (
+                <Stack direction="row" sx={styles.chips}>
+                  {target.targetClass.map((c) => (
+                    <Chip
+                      key={c.id}
+                      size="small"
+                      label={`${c.label} (${c.level})`}
+                    />
+                  ))}
+                </Stack>
+              ) : (
+                <Typography color="text.secondary">Unclassified.</Typography>
+              )}
+            </Section>
+            <Section title="Subcellular locations">
+              {target.subcellularLocations.length > 0 ? (
+                <Stack direction="row" sx={styles.chips}>
+                  {target.subcellularLocations.map(({ location, source }) => (
+                    <Chip
+                      key={location}
+                      size="small"
+                      variant="outlined"
+                      label={location}
+                      title={`Source: ${source}`}
+                    />
+                  ))}
+                </Stack>
+              ) : (
+                <Typography color="text.secondary">No locations.</Typography>
+              )}
+            </Section>
+          </>
+        ) : association ? (
+          <>
+            <Stack
+              direction="row"
+              justifyContent="space-between"
+              alignItems="center"
+              mb={2}
+            >
+              <Typography>
+                Overall association score{" "}
+                <Box component="strong" sx={styles.score}>
+                  {association.score.toFixed(3)}
+                </Box>
+                {!indirect && " (direct evidence only)"}
+              </Typography>
+              {!drilled && (
+                <ToggleButtonGroup
+                  exclusive
+                  size="small"
+                  value={chart}
+                  onChange={(_, value: "bar" | "radar" | null) =>
+                    value && setChart(value)
+                  }
+                  aria-label="Chart type"
+                >
+                  <ToggleButton value="bar">Bar chart</ToggleButton>
+                  <ToggleButton value="radar">Radar chart</ToggleButton>
+                </ToggleButtonGroup>
+              )}
+            </Stack>
+            <Breadcrumbs aria-label="Score breakdown" sx={{ mb: 1 }}>
+              {drilled ? (
+                <Link
+                  component="button"
+                  underline="hover"
+                  onClick={() => setDrilled(null)}
+                >
+                  All data types
+                </Link>
+              ) : (
+                <Typography color="text.primary">All data types</Typography>
+              )}
+              {drilled && (
+                <Typography color="text.primary">
+                  {formatLabel(drilled)}
+                </Typography>
+              )}
+            </Breadcrumbs>
+            {drilled ? (
+              <BarChart
+                items={association.datasourceScores[drilled] ?? []}
+                xLabel="Data Source"
+                title={`${formatLabel(drilled)} Data Source Scores: ${target.approvedSymbol} and ${disease.name}`}
+              />
+            ) : chart === "bar" ? (
+              <BarChart
+                items={association.datatypeScores}
+                title={chartTitle}
+                onSelect={setDrilled}
+              />
+            ) : (
+              <RadarChart
+                items={association.datatypeScores}
+                title={chartTitle}
+                onSelect={setDrilled}
+              />
+            )}
+          </>
+        ) : (
+          <Typography color="text.secondary">
+            {target.approvedSymbol} is not associated with {disease.name}
+            {indirect ? "." : " through direct evidence."}
+          </Typography>
+        )}
+      </Paper>
+    </Box>
+  );
+}
+
+export function ErrorBoundary({ error }: Route.ErrorBoundaryProps) {
+  return (
+    <RouteErrorPage
+      error={error}
+      notFoundTitle="Target not found"
+      fallbackMessage="An unexpected error occurred while loading the target."
+    />
+  );
+}
@@ -1,12 +1,14 @@
 import type { CodegenConfig } from '@graphql-codegen/cli';
 const config: CodegenConfig = {
   overwrite: true,
-  schema: 'https://api.platform.opentargets.org/api/v4/graphql',
-  documents: ['app/graphql/**/*.graphql'],
+  // Vendored snapshot; refresh it with `npm run schema:update`, or set
+  // GRAPHQL_SCHEMA to generate against a live endpoint instead.
+  schema: process.env.GRAPHQL_SCHEMA || 'app/graphql/schema.graphql',
+  documents: ['app/graphql/**/*.graphql', '!app/graphql/schema.graphql'],
   generates: {
     'app/graphql/generated.ts': {
       plugins: ['typescript','typescript-operations','typescript-graphql-request'],
-      config: { gqlTagName: 'gql', rawRequest: false }
+      config: { gqlTagName: 'gql', rawRequest: false, useTypeImports: true }
     }
   }
 };
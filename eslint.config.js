@@ -83,6 +83,20 @@ export default [
         { checksVoidReturn: { attributes: false } },
       ],
       "@typescript-eslint/no-floating-promises": "error",
+      // React Router loaders throw `data()` / `redirect()` responses on purpose
+      "@typescript-eslint/only-throw-error": [
+        "error",
+        {
+          allow: [
+            {
+              from: "package",
+              package: "react-router",
+              name: "DataWithResponseInit",
+            },
+            { from: "lib", name: "Response" },
+          ],
+        },
+      ],
     },
   },
   {
@@ -109,6 +123,20 @@ export default [
     rules: {},
   },
 
+  {
+    files: ["scripts/**/*.mjs"],
+    languageOptions: {
+      ecmaVersion: "latest",
+      sourceType: "module",
+      globals: {
+        console: "readonly",
+        fetch: "readonly",
+        process: "readonly",
+        URL: "readonly",
+      },
+    },
+  },
+
   {
     files: ["tests/**/*.ts", "tests/**/*.tsx"],
     plugins: { playwright },
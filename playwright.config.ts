@@ -1,5 +1,10 @@
 import { defineConfig, devices } from "@playwright/test";
 
+// Tests run against the offline mock API (replaying tests/fixtures/graphql)
+// unless GRAPHQL_API_URL points somewhere else.
+const mockApiUrl = "http://localhost:4000/graphql";
+const apiUrl = process.env.GRAPHQL_API_URL || mockApiUrl;
+
 export default defineConfig({
   testDir: "tests/e2e",
   fullyParallel: true,
@@ -14,10 +19,24 @@ export default defineConfig({
   projects: [
     { name: "chromium", use: { ...devices["Desktop Chrome"] } },
   ],
-  webServer: {
-    command: "npm run build && npm run start",
-    url: "http://192.168.1.136:3000",
-    reuseExistingServer: !process.env.CI,
-    timeout: 120_000,
-  },
+  webServer: [
+    ...(apiUrl === mockApiUrl
+      ? [
+          {
+            command: "npm run mock:api",
+            url: "http://localhost:4000/health",
+            reuseExistingServer: !process.env.CI,
+            timeout: 10_000,
+          },
+        ]
+      : []),
+    {
+      command: "npm run build && npm run start",
+      url: "http://192.168.1.136:3000",
+      // The literature fixtures end in 2026
+      env: { GRAPHQL_API_URL: apiUrl, LITERATURE_TIMELINE_END_YEAR: "2026" },
+      reuseExistingServer: !process.env.CI,
+      timeout: 120_000,
+    },
+  ],
 });
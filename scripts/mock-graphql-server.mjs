@@ -0,0 +1,145 @@
+// Local stand-in for the Open Targets GraphQL API.
+//
+// replay (default): answers each operation from the JSON fixtures in
+//   tests/fixtures/graphql, so `npm run dev` and Playwright work offline.
+// record: forwards every request to the real API and writes the response
+//   to a new fixture file, so fixtures can be captured once and replayed.
+//
+// Point the app at it with GRAPHQL_API_URL=http://localhost:4000/graphql.
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+
+import { parse } from "graphql";
+
+const port = Number(process.env.MOCK_GRAPHQL_PORT || 4000);
+const mode = process.env.MOCK_GRAPHQL_MODE === "record" ? "record" : "replay";
+const upstream =
+  process.env.MOCK_GRAPHQL_UPSTREAM ||
+  "https://api.platform.opentargets.org/api/v4/graphql";
+const fixturesDir = path.resolve(
+  process.env.MOCK_GRAPHQL_FIXTURES || "tests/fixtures/graphql"
+);
+
+/**
+ * A fixture answers an operation when every variable it lists equals the
+ * request's variable of the same name; variables it leaves out match anything.
+ * When several fixtures match, the one listing the most variables wins.
+ */
+async function loadFixtures() {
+  const files = (await readdir(fixturesDir)).filter((f) => f.endsWith(".json"));
+  return Promise.all(
+    files.map(async (file) => ({
+      file,
+      ...JSON.parse(await readFile(path.join(fixturesDir, file), "utf8")),
+    }))
+  );
+}
+
+function findFixture(fixtures, operationName, variables) {
+  return fixtures
+    .filter((f) => f.operationName === operationName)
+    .filter((f) =>
+      Object.entries(f.variables ?? {}).every(([k, v]) =>
+        isDeepStrictEqual(variables[k], v)
+      )
+    )
+    .sort(
+      (a, b) =>
+        Object.keys(b.variables ?? {}).length -
+        Object.keys(a.variables ?? {}).length
+    )[0];
+}
+
+function operationNameOf(body) {
+  if (body.operationName) return body.operationName;
+  const document = parse(body.query);
+  const operation = document.definitions.find(
+    (d) => d.kind === "OperationDefinition"
+  );
+  return operation?.name?.value ?? "anonymous";
+}
+
+async function record(body, operationName, variables) {
+  const res = await fetch(upstream, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const response = await res.json();
+  const hash = createHash("sha1")
+    .update(JSON.stringify(variables))
+    .digest("hex")
+    .slice(0, 8);
+  const file = `${operationName}.${hash}.json`;
+  await mkdir(fixturesDir, { recursive: true });
+  await writeFile(
+    path.join(fixturesDir, file),
+    `${JSON.stringify({ operationName, variables, response }, null, 2)}\n`
+  );
+  console.log(`recorded ${operationName} → ${file}`);
+  return { status: res.status, response };
+}
+
+async function replay(operationName, variables) {
+  const fixture = findFixture(await loadFixtures(), operationName, variables);
+  if (!fixture) {
+    console.warn(
+      `no fixture for ${operationName} ${JSON.stringify(variables)}`
+    );
+    return {
+      status: 200,
+      response: {
+        data: null,
+        errors: [
+          {
+            message: `No fixture for ${operationName} with variables ${JSON.stringify(variables)}`,
+          },
+        ],
+      },
+    };
+  }
+  return { status: 200, response: fixture.response };
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => resolve(raw));
+    req.on("error", reject);
+  });
+}
+
+function send(res, status, payload) {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify(payload));
+}
+
+const server = createServer(async (req, res) => {
+  if (req.method === "GET" && req.url === "/health") {
+    return send(res, 200, { status: "ok", mode });
+  }
+  if (req.method !== "POST" || !req.url?.startsWith("/graphql")) {
+    return send(res, 404, { errors: [{ message: "Not found" }] });
+  }
+
+  try {
+    const body = JSON.parse(await readBody(req));
+    const operationName = operationNameOf(body);
+    const variables = body.variables ?? {};
+    const { status, response } =
+      mode === "record"
+        ? await record(body, operationName, variables)
+        : await replay(operationName, variables);
+    send(res, status, response);
+  } catch (error) {
+    send(res, 500, { errors: [{ message: String(error) }] });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`mock Open Targets API (${mode}) on http://localhost:${port}/graphql`);
+});
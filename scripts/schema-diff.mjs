@@ -0,0 +1,167 @@
+// Compares a live Open Targets GraphQL schema with the vendored snapshot in
+// app/graphql/schema.graphql and reports what would break our operations.
+//
+// npm run schema:diff [-- <endpoint>]
+//   introspects the endpoint (default: the public Open Targets API) and lists
+//   breaking and dangerous changes that touch a type or field used in
+//   app/graphql/queries.graphql, plus used fields the endpoint deprecates.
+//   Exits with 1 when a breaking change affects us.
+// npm run schema:update [-- <endpoint>]
+//   overwrites the snapshot with the endpoint's schema; run codegen afterwards.
+import { readFile, writeFile } from "node:fs/promises";
+
+import {
+  buildClientSchema,
+  buildSchema,
+  findBreakingChanges,
+  findDangerousChanges,
+  getIntrospectionQuery,
+  getNamedType,
+  isInputObjectType,
+  isInterfaceType,
+  isObjectType,
+  parse,
+  printSchema,
+  TypeInfo,
+  typeFromAST,
+  visit,
+  visitWithTypeInfo,
+} from "graphql";
+
+const snapshotPath = "app/graphql/schema.graphql";
+const documentsPath = "app/graphql/queries.graphql";
+
+const args = process.argv.slice(2);
+const write = args.includes("--write");
+const endpoint =
+  args.find((arg) => !arg.startsWith("--")) ||
+  "https://api.platform.opentargets.org/api/v4/graphql";
+
+async function introspect(url) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ query: getIntrospectionQuery() }),
+  });
+  if (!response.ok) {
+    throw new Error(`${url} answered ${response.status} ${response.statusText}`);
+  }
+  const { data, errors } = await response.json();
+  if (!data) {
+    throw new Error(`Introspection failed: ${JSON.stringify(errors)}`);
+  }
+  return buildClientSchema(data);
+}
+
+/**
+ * Type names and `Type.field` coordinates that the operations rely on,
+ * including the fields of every input object they pass (recursively).
+ */
+function usedCoordinates(schema, document) {
+  const types = new Set();
+  const fields = new Set();
+
+  const addInputType = (type) => {
+    const named = getNamedType(type);
+    if (!named || types.has(named.name)) return;
+    types.add(named.name);
+    if (isInputObjectType(named)) {
+      for (const field of Object.values(named.getFields())) {
+        fields.add(`${named.name}.${field.name}`);
+        addInputType(field.type);
+      }
+    }
+  };
+
+  const typeInfo = new TypeInfo(schema);
+  visit(
+    document,
+    visitWithTypeInfo(typeInfo, {
+      Field() {
+        const parent = typeInfo.getParentType();
+        const field = typeInfo.getFieldDef();
+        if (!parent || !field) return;
+        types.add(parent.name);
+        fields.add(`${parent.name}.${field.name}`);
+        types.add(getNamedType(field.type).name);
+      },
+      Argument() {
+        const arg = typeInfo.getArgument();
+        if (arg) addInputType(arg.type);
+      },
+      VariableDefinition(node) {
+        const type = typeFromAST(schema, node.type);
+        if (type) addInputType(type);
+      },
+    })
+  );
+  return { types, fields };
+}
+
+/**
+ * Whether a change description from graphql-js names something we use.
+ * Descriptions mention either `Type.field` coordinates or bare type names
+ * ("Pagination was removed.", "… on input type Pagination was added.").
+ */
+function affectsUs(description, { types, fields }) {
+  const coordinates = description.match(/\b\w+\.\w+\b/g) ?? [];
+  if (coordinates.length > 0) {
+    return coordinates.some((c) => fields.has(c));
+  }
+  return (description.match(/\b\w+\b/g) ?? []).some((word) => types.has(word));
+}
+
+function deprecatedFields(schema, { fields }) {
+  const deprecated = [];
+  for (const coordinate of fields) {
+    const [typeName, fieldName] = coordinate.split(".");
+    const type = schema.getType(typeName);
+    if (!isObjectType(type) && !isInterfaceType(type) && !isInputObjectType(type)) {
+      continue;
+    }
+    const field = type.getFields()[fieldName];
+    if (field?.deprecationReason) {
+      deprecated.push(`${coordinate}: ${field.deprecationReason}`);
+    }
+  }
+  return deprecated;
+}
+
+function report(title, lines) {
+  if (lines.length === 0) return;
+  console.log(`\n${title}`);
+  for (const line of lines) console.log(`  - ${line}`);
+}
+
+const live = await introspect(endpoint);
+
+if (write) {
+  await writeFile(snapshotPath, printSchema(live) + "\n");
+  console.log(`wrote ${endpoint} schema to ${snapshotPath}; run npm run codegen`);
+} else {
+  const snapshot = buildSchema(await readFile(snapshotPath, "utf8"));
+  const document = parse(await readFile(documentsPath, "utf8"));
+  const used = usedCoordinates(snapshot, document);
+
+  const breaking = findBreakingChanges(snapshot, live);
+  const dangerous = findDangerousChanges(snapshot, live);
+  const affectingBreaking = breaking.filter((c) => affectsUs(c.description, used));
+  const affectingDangerous = dangerous.filter((c) => affectsUs(c.description, used));
+
+  console.log(
+    `${endpoint} vs ${snapshotPath}: ${breaking.length} breaking, ` +
+      `${dangerous.length} dangerous change(s); ` +
+      `${affectingBreaking.length + affectingDangerous.length} touch ${documentsPath}`
+  );
+  report(
+    "Breaking changes affecting our operations:",
+    affectingBreaking.map((c) => `[${c.type}] ${c.description}`)
+  );
+  report(
+    "Dangerous changes affecting our operations:",
+    affectingDangerous.map((c) => `[${c.type}] ${c.description}`)
+  );
+  report("Deprecated fields we still use:", deprecatedFields(live, used));
+
+  if (affectingBreaking.length > 0) process.exitCode = 1;
+}
@@ -1,3 +1,5 @@
+import { readFile } from "node:fs/promises";
+
 import { expect,test } from "@playwright/test";
 
 test.describe("Association Table", () => {
@@ -11,9 +13,9 @@ test.describe("Association Table", () => {
     const table = page.getByRole("table");
     await expect(table).toBeVisible();
     const header = page.locator("thead tr");
-    await expect(header.locator("th").nth(1)).toHaveText(/Approved Symbol/i);
-    await expect(header.locator("th").nth(2)).toHaveText(/Gene Name/i);
-    await expect(header.locator("th").nth(3)).toHaveText(/Overall Association Score/i);
+    await expect(header.locator("th").nth(2)).toHaveText(/Approved Symbol/i);
+    await expect(header.locator("th").nth(3)).toHaveText(/Gene Name/i);
+    await expect(header.locator("th").nth(4)).toHaveText(/Overall Association Score/i);
     const dataRows = page.locator("tbody > tr").filter({ has: page.locator('td') });
     await expect(dataRows.first()).toBeVisible();
   });
@@ -52,8 +54,10 @@ test.describe("Association Table", () => {
     await radarTab.click();
     await expect(radarTab).toHaveAttribute("aria-selected", "true");
     await expect(page.getByText(/Data Type Scores:.*and lung carcinoma/i)).toBeVisible();
-    await expect(page.getByText("Known Drug")).toBeVisible();
-    await expect(page.getByText("Literature")).toBeVisible();
+    // Scoped to the chart: the row's "Known drugs" and "Literature" tabs match too
+    const radar = page.getByRole("img", { name: /Data Type Scores:.*and lung carcinoma/i });
+    await expect(radar.getByText("Known Drug", { exact: true })).toBeVisible();
+    await expect(radar.getByText("Literature", { exact: true })).toBeVisible();
     await expect(page.getByText("Genetic Association")).toBeVisible();
     await expect(page.getByText("Data Type")).toBeVisible();
     await expect(page.getByText("Association Score")).toBeVisible();
@@ -61,20 +65,290 @@ test.describe("Association Table", () => {
 
   test("gene links navigate to correct URLs", async ({ page }) => {
     const firstRow = page.locator("tbody > tr").filter({ has: page.locator('td') }).first();
-    const geneLink = firstRow.locator("td").nth(1).locator("a");
-    await expect(geneLink).toBeVisible();
-    await expect(geneLink).toHaveAttribute("href", /platform\.opentargets\.org\/target/i);
-    await expect(geneLink).toHaveAttribute("target", "_blank");
-    await expect(geneLink).toHaveAttribute("rel", "noreferrer");
+    const symbolCell = firstRow.locator("td").nth(2);
+    const targetLink = symbolCell.getByRole("link", { name: /^[A-Z0-9-]+$/ });
+    await expect(targetLink).toHaveAttribute("href", /^\/target\/ENSG\d+\?disease=EFO_0001071/);
+    const ensemblId = (await targetLink.getAttribute("href"))?.match(/ENSG\d{11}/)?.[0];
+    await symbolCell.getByRole("button", { name: /external links for/i }).click();
+    const menu = page.getByRole("menu");
+    const openTargets = menu.getByRole("menuitem", { name: "Open Targets" });
+    await expect(openTargets).toHaveAttribute("href", `https://platform.opentargets.org/target/${ensemblId}`);
+    await expect(openTargets).toHaveAttribute("target", "_blank");
+    await expect(openTargets).toHaveAttribute("rel", "noreferrer");
+    await expect(menu.getByRole("menuitem", { name: "Ensembl" })).toHaveAttribute("href", new RegExp(`ensembl\\.org/.*[?&]g=${ensemblId}$`));
+    await expect(menu.getByRole("menuitem", { name: "UniProt" })).toHaveAttribute("href", /uniprot\.org\/uniprotkb\/[A-Z0-9]{6,10}\/entry$/);
+    await expect(menu.getByRole("menuitem", { name: "HGNC" })).toHaveAttribute("href", /genenames\.org\/.*HGNC:\d+$/);
+    await expect(menu.getByRole("menuitem", { name: "GeneCards" })).toHaveAttribute("href", /genecards\.org\/.*[?&]gene=[A-Z0-9-]+$/);
   });
 
   test("displays gene information correctly", async ({ page }) => {
     const firstRow = page.locator("tbody > tr").filter({ has: page.locator('td') }).first();
-    const symbolCell = firstRow.locator("td").nth(1);
-    await expect(symbolCell.locator("a")).toBeVisible();
-    const nameCell = firstRow.locator("td").nth(2);
+    const symbolCell = firstRow.locator("td").nth(2);
+    await expect(symbolCell.locator("a").first()).toBeVisible();
+    const nameCell = firstRow.locator("td").nth(3);
     await expect(nameCell).toHaveText(/.+/); // Non-empty text
-    const scoreCell = firstRow.locator("td").nth(3);
+    const scoreCell = firstRow.locator("td").nth(4);
     await expect(scoreCell).toHaveText(/^\d\.\d{3}$/);
   });
+
+  test("paginates through associated targets", async ({ page }) => {
+    await expect(page.getByText(/1–10 of \d+/)).toBeVisible();
+    await page.getByRole("button", { name: /next page/i }).click();
+    await expect(page).toHaveURL(/[?&]page=2/);
+    await expect(
+      page.getByRole("heading", { name: /Genes 11–\d+ associated with lung carcinoma/i })
+    ).toBeVisible();
+    await expect(page.getByText(/11–\d+ of \d+/)).toBeVisible();
+  });
+
+  test("sorts targets by a datatype score", async ({ page }) => {
+    await page.getByRole("combobox", { name: /sort by/i }).click();
+    await page.getByRole("option", { name: /known drug score/i }).click();
+    await expect(page).toHaveURL(/[?&]sort=known_drug/);
+    const header = page.locator("thead tr");
+    await expect(header.locator("th").nth(5)).toHaveText(/Known Drug Score/i);
+    await header.getByRole("button", { name: /known drug score/i }).click();
+    await expect(page).toHaveURL(/[?&]dir=asc/);
+  });
+
+  test("re-scores targets with custom datasource weights", async ({ page }) => {
+    await page.getByRole("button", { name: /datasource weights/i }).click();
+    const slider = page.getByRole("slider", { name: /europepmc weight/i });
+    await slider.focus();
+    await slider.press("Home");
+    await page.getByRole("button", { name: /^apply$/i }).click();
+    await expect(page).toHaveURL(/[?&]w=europepmc%3A0/);
+    const header = page.locator("thead tr");
+    await expect(header).toContainText(/Rank vs Default Weights/i);
+  });
+
+  test("switches between direct and indirect associations", async ({ page }) => {
+    const evidence = page.getByRole("group", { name: /association evidence/i });
+    await expect(evidence.getByRole("button", { name: "Indirect" })).toHaveAttribute("aria-pressed", "true");
+    await expect(page.getByText("Indirect only").first()).toBeVisible();
+    await evidence.getByRole("button", { name: "Direct" }).click();
+    await expect(page).toHaveURL(/[?&]evidence=direct/);
+    await expect(evidence.getByRole("button", { name: "Direct" })).toHaveAttribute("aria-pressed", "true");
+    await expect(page.getByText("Indirect only")).toHaveCount(0);
+  });
+
+  test("filters targets by name or symbol", async ({ page }) => {
+    const search = page.getByRole("textbox", { name: /search targets/i });
+    await search.fill("EGFR");
+    await expect(page).toHaveURL(/[?&]q=EGFR/);
+    const dataRows = page.locator("tbody > tr").filter({ has: page.locator("td a") });
+    await expect(dataRows).toHaveCount(1);
+    await expect(dataRows.first()).toContainText("EGFR");
+    await search.fill("NOTAGENE");
+    await expect(page).toHaveURL(/[?&]q=NOTAGENE/);
+    await expect(page.getByText("No matching targets")).toBeVisible();
+  });
+
+  test("drills into the datasources behind a datatype", async ({ page }) => {
+    const firstRow = page.locator("tbody > tr").filter({ has: page.locator('td') }).first();
+    await firstRow.getByRole("button", { name: /expand row/i }).click();
+    await page.getByRole("button", { name: /show literature breakdown/i }).click();
+    const breadcrumbs = page.getByRole("navigation", { name: /score breakdown/i });
+    await expect(breadcrumbs).toContainText("Literature");
+    await expect(page.getByText(/Literature Data Source Scores:.*and lung carcinoma/i)).toBeVisible();
+    await expect(page.getByText("Data Source", { exact: true })).toBeVisible();
+    await breadcrumbs.getByRole("button", { name: /all data types/i }).click();
+    await expect(page.getByText(/^Data Type Scores:.*and lung carcinoma/i)).toBeVisible();
+  });
+
+  test("reports unknown diseases and partial upstream errors", async ({ page }) => {
+    const response = await page.goto("/disease/EFO_9999999");
+    expect(response?.status()).toBe(404);
+    await expect(page.getByText("Disease not found")).toBeVisible();
+    await page.goto("/disease/MOCK_PARTIAL_ERRORS");
+    const banner = page.getByRole("alert");
+    await expect(banner).toContainText("1 row was left out");
+    await expect(banner).toContainText("Internal server error");
+    await expect(page.locator("tbody > tr").filter({ has: page.locator("td a") })).toHaveCount(3);
+  });
+
+  test("cites the Open Targets data release", async ({ page }) => {
+    await expect(page.locator("footer")).toContainText(/Open Targets Platform \d{2}\.\d{2}.*\(API [\d.]+\)/);
+    await expect(page.locator('meta[name="opentargets:data-version"]')).toHaveAttribute("content", /^\d{2}\.\d{2}/);
+  });
+
+  test("exports the current page as CSV", async ({ page }) => {
+    await page.getByRole("button", { name: /export/i }).click();
+    const [download] = await Promise.all([
+      page.waitForEvent("download"),
+      page.getByRole("menuitem", { name: /current page as csv/i }).click(),
+    ]);
+    expect(download.suggestedFilename()).toMatch(/^lung-carcinoma-associations-.*\.csv$/);
+    const path = await download.path();
+    const csv = await readFile(path, "utf8");
+    expect(csv).toContain("# disease: EFO_0001071 (lung carcinoma)");
+    expect(csv).toMatch(/# data release: Open Targets Platform/);
+    expect(csv).toContain("ensembl_id,symbol,name,score,genetic_association");
+  });
+
+  test("opens a target page and returns to the same table", async ({ page }) => {
+    await page.goto("/disease/EFO_0001071?sort=known_drug");
+    const firstRow = page.locator("tbody > tr").filter({ has: page.locator('td') }).first();
+    const targetLink = firstRow.locator("td").nth(2).locator("a").first();
+    const symbol = await targetLink.innerText();
+    await targetLink.click();
+    await expect(page).toHaveURL(/\/target\/ENSG\d+\?disease=EFO_0001071/);
+    await expect(page.getByRole("heading", { name: symbol, exact: true })).toBeVisible();
+    await expect(page.getByRole("heading", { name: "Function" })).toBeVisible();
+    await page.getByRole("tab", { name: /association with lung carcinoma/i }).click();
+    await expect(page.getByText(/Overall association score \d\.\d{3}/)).toBeVisible();
+    await expect(page.getByText(/Data Type Scores:.*and lung carcinoma/i)).toBeVisible();
+    await page.getByRole("link", { name: /back to lung carcinoma associations/i }).click();
+    await expect(page).toHaveURL(/\/disease\/EFO_0001071\?sort=known_drug/);
+  });
+
+  test("reports unknown targets", async ({ page }) => {
+    const response = await page.goto("/target/ENSG00000000000");
+    expect(response?.status()).toBe(404);
+    await expect(page.getByText("Target not found")).toBeVisible();
+  });
+
+  test("lists known drugs for a target once the tab is opened", async ({ page }) => {
+    const requests: string[] = [];
+    page.on("request", (request) => {
+      if (request.url().includes("/known-drugs")) requests.push(request.url());
+    });
+    const firstRow = page.locator("tbody > tr").filter({ has: page.locator('td') }).first();
+    await firstRow.getByRole("button", { name: /expand row/i }).click();
+    expect(requests).toHaveLength(0);
+    await page.getByRole("tab", { name: /known drugs/i }).click();
+    const drugs = page.getByRole("table", { name: /known drugs for EGFR in lung carcinoma/i });
+    await expect(drugs.getByRole("link", { name: "OSIMERTINIB" })).toHaveAttribute("href", /platform\.opentargets\.org\/drug\/CHEMBL\d+$/);
+    await expect(drugs.getByRole("row", { name: /OSIMERTINIB/ })).toContainText("Phase IV");
+    await page.getByRole("button", { name: /load more/i }).click();
+    await expect(drugs.getByRole("link", { name: "LAZERTINIB" })).toBeVisible();
+    await expect(drugs.getByRole("link", { name: "OSIMERTINIB" })).toBeVisible();
+    await expect(page.getByRole("button", { name: /load more/i })).toBeHidden();
+  });
+
+  test("lists publications with a timeline in the literature tab", async ({ page }) => {
+    const firstRow = page.locator("tbody > tr").filter({ has: page.locator('td') }).first();
+    await firstRow.getByRole("button", { name: /expand row/i }).click();
+    await page.getByRole("tab", { name: /literature/i }).click();
+    await expect(page.getByLabel(/publications per year: EGFR and lung carcinoma/i)).toBeVisible();
+    const publications = page.getByRole("table", { name: /publications mentioning EGFR and lung carcinoma/i });
+    await expect(publications.locator("tbody tr")).toHaveCount(25);
+    await expect(publications.getByRole("link", { name: /^\d+$/ }).first()).toHaveAttribute("href", /pubmed\.ncbi\.nlm\.nih\.gov\/\d+\/$/);
+    await page.getByRole("button", { name: /load more/i }).click();
+    await expect(publications.locator("tbody tr")).toHaveCount(30);
+    await expect(page.getByText(/Showing 30 of 30 publications/)).toBeVisible();
+  });
+
+  test("browses the disease ontology and opens a child term", async ({ page }) => {
+    await page.getByRole("button", { name: /disease ontology/i }).click();
+    await expect(page.getByRole("link", { name: "respiratory or thoracic disease" })).toHaveAttribute("href", "/disease/OTAR_0000010");
+    await expect(page.getByRole("link", { name: "lung cancer" })).toBeVisible();
+    await page.getByRole("button", { name: "Expand non-small cell lung carcinoma" }).click();
+    await expect(page.getByRole("link", { name: "lung adenocarcinoma" })).toHaveAttribute("href", "/disease/EFO_0000571");
+    await page.getByRole("link", { name: "non-small cell lung carcinoma" }).click();
+    await expect(page).toHaveURL(/\/disease\/EFO_0003060$/);
+    await expect(page.getByRole("heading", { level: 2 })).toContainText("associated with non-small cell lung carcinoma");
+  });
+
+  test("compares ticked targets in overlaid charts", async ({ page }) => {
+    const compare = page.getByRole("link", { name: /compare/i });
+    await expect(compare).toHaveAttribute("aria-disabled", "true");
+    await page.getByRole("checkbox", { name: "Select EGFR to compare" }).check();
+    await page.getByRole("checkbox", { name: "Select KRAS to compare" }).check();
+    await expect(compare).toHaveText(/Compare \(2\)/);
+    await compare.click();
+    await expect(page).toHaveURL(/\/compare\?targets=ENSG00000146648%2CENSG00000133703&disease=EFO_0001071/);
+    await expect(page.getByRole("heading", { level: 2 })).toHaveText("Comparing EGFR and KRAS");
+    await expect(page.getByLabel(/Data Type Scores: EGFR and KRAS in lung carcinoma/)).toBeVisible();
+    const kras = page.getByRole("button", { name: "KRAS" });
+    await expect(kras).toHaveAttribute("aria-pressed", "true");
+    await kras.click();
+    await expect(kras).toHaveAttribute("aria-pressed", "false");
+    await page.getByRole("button", { name: "Bar chart" }).click();
+    await expect(page.getByRole("button", { name: "EGFR" })).toHaveAttribute("aria-pressed", "true");
+  });
+
+  test("allows at most six targets to be compared", async ({ page }) => {
+    const checkboxes = page.getByRole("checkbox", { name: /to compare$/ });
+    for (const index of [0, 1, 2, 3, 4, 5]) {
+      await checkboxes.nth(index).check();
+    }
+    await expect(checkboxes.nth(6)).toBeDisabled();
+    await expect(page.getByRole("link", { name: /compare \(6\)/i })).toBeVisible();
+  });
+
+  test("shows a heatmap and opens a target's row from it", async ({ page }) => {
+    await page.getByRole("button", { name: "Heatmap" }).click();
+    const heatmap = page.getByLabel(/Data Type Scores: top targets for lung carcinoma/);
+    await expect(heatmap).toBeVisible();
+    await expect(heatmap.locator("rect.cell")).toHaveCount(70);
+    await page.getByRole("button", { name: "Clustering" }).click();
+    await expect(heatmap.locator("rect.cell")).toHaveCount(70);
+    await page.getByRole("button", { name: "Open KRAS scores" }).click();
+    await expect(page.getByRole("table", { name: /genes associated with lung carcinoma/i })).toBeVisible();
+    await expect(page.getByRole("button", { name: /collapse row/i })).toHaveCount(1);
+    await expect(page.getByLabel(/Data Type Scores: KRAS and lung carcinoma/)).toBeVisible();
+  });
+
+  test("compares the targets of a disease and its subtypes", async ({ page }) => {
+    await page.getByRole("button", { name: /disease ontology/i }).click();
+    await page.getByRole("checkbox", { name: "Select non-small cell lung carcinoma to compare" }).check();
+    await page.getByRole("checkbox", { name: "Select small cell lung carcinoma to compare" }).check();
+    await page.getByRole("link", { name: "Compare targets (3)" }).click();
+    await expect(page).toHaveURL(/\/compare\/diseases\?diseases=EFO_0001071%2CEFO_0003060%2CEFO_0000702$/);
+    await expect(page.getByRole("heading", { level: 2 })).toHaveText("Comparing lung carcinoma, non-small cell lung carcinoma and small cell lung carcinoma");
+    const merged = page.getByRole("table", { name: "Merged targets" });
+    await expect(merged.locator("tbody tr")).toHaveCount(12);
+    await expect(merged.getByRole("columnheader", { name: /Δ score/ })).toBeVisible();
+    await page.getByRole("button", { name: "Show 1 target in lung carcinoma, non-small cell lung carcinoma and small cell lung carcinoma only" }).click();
+    await expect(merged.locator("tbody tr")).toHaveCount(1);
+    await expect(merged.getByRole("link", { name: "TP53" })).toBeVisible();
+    await page.getByRole("button", { name: "Show all targets" }).click();
+    await expect(merged.locator("tbody tr")).toHaveCount(12);
+  });
+});
+
+test.describe("Associations JSON API", () => {
+  test("serves associations with conditional GET support", async ({ request }) => {
+    const url = "/api/diseases/EFO_0001071/associations?datatypes=known_drug";
+    const response = await request.get(url);
+    expect(response.status()).toBe(200);
+    const body = (await response.json()) as { rows: { datatypeScores: { id: string }[] }[] };
+    expect(body.rows.length).toBeGreaterThan(0);
+    expect(body.rows[0].datatypeScores.every((d) => d.id === "known_drug")).toBe(true);
+    const etag = response.headers()["etag"];
+    expect(etag).toBeTruthy();
+    const cached = await request.get(url, { headers: { "If-None-Match": etag } });
+    expect(cached.status()).toBe(304);
+  });
+});
+
+test.describe("Global search", () => {
+  test("opens a disease with the keyboard", async ({ page }) => {
+    await page.goto("/target/ENSG00000146648");
+    const search = page.getByRole("combobox", { name: /search diseases, targets or drugs/i });
+    await search.fill("lung");
+    await expect(page.getByText(/Diseases · 57 matches/)).toBeVisible();
+    await expect(page.getByRole("option", { name: /non-small cell lung carcinoma/i })).toBeVisible();
+    await search.press("Enter");
+    await expect(page).toHaveURL(/\/disease\/EFO_0001071$/);
+  });
+
+  test("opens a target in the context of the current disease", async ({ page }) => {
+    await page.goto("/disease/EFO_0001071");
+    const search = page.getByRole("combobox", { name: /search diseases, targets or drugs/i });
+    await search.fill("egfr");
+    await expect(page.getByText(/Targets · 2 matches/)).toBeVisible();
+    await expect(page.getByText(/Drugs · 41 matches/)).toBeVisible();
+    await page.getByRole("option", { name: /epidermal growth factor receptor/ }).click();
+    await expect(page).toHaveURL(/\/target\/ENSG00000146648\?disease=EFO_0001071$/);
+  });
+
+  test("serves grouped hits from the search API", async ({ request }) => {
+    const response = await request.get("/api/search?q=%20LUNG%20");
+    expect(response.status()).toBe(200);
+    const body = (await response.json()) as { query: string; groups: { entity: string; total: number }[] };
+    expect(body.query).toBe("lung");
+    expect(body.groups.map((g) => g.entity)).toEqual(["disease", "target"]);
+  });
 });
\ No newline at end of file